@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview `tinky-termcap` command-line tool.
+ *
+ * Detects the capabilities of the terminal it runs in and prints them, so
+ * users can report what their terminal supports with
+ * `npx tinky-termcap` instead of each app shipping a debug screen.
+ *
+ * @example
+ * ```sh
+ * npx tinky-termcap              # human-readable table
+ * npx tinky-termcap --json       # machine-readable output
+ * npx tinky-termcap --raw        # include queries and raw replies
+ * npx tinky-termcap --passthrough  # ask the terminal outside tmux/screen
+ * npx tinky-termcap --timeout 3000
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { runCli } from "./utils/run-cli.js";
+
+process.exitCode = await runCli(process.argv.slice(2), process);
@@ -31,13 +31,30 @@
  */
 
 import type React from "react";
-import { createContext, useEffect, useMemo, useState } from "react";
+import {
+  createContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { useStdin, useStdout } from "tinky";
+import { watchColorScheme } from "../utils/color-scheme-updates.js";
+import { detectTermcapFromEnv } from "../utils/env-termcap.js";
 import {
   detectTermcap,
+  queryFeatures,
   type TermcapInfo,
   DEFAULT_DETECTION_TIMEOUT,
 } from "../utils/detect-termcap.js";
+import {
+  findTermcapCache,
+  getTermcapCachePath,
+  getTerminalIdentity,
+  writeTermcapCache,
+} from "../utils/termcap-cache.js";
+import { COLOR_FEATURES, type TermcapFeature } from "../utils/term-features.js";
 
 /**
  * Default termcap info before detection completes.
@@ -56,6 +73,35 @@ const defaultTermcapInfo: TermcapInfo = {
   modifyOtherKeys: false,
 };
 
+/**
+ * Structural equality of two detection results, so revalidating cached
+ * capabilities only re-renders when something changed.
+ *
+ * @internal
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  const entriesA = Object.entries(a).filter(([, value]) => value !== undefined);
+  const entriesB = Object.entries(b).filter(([, value]) => value !== undefined);
+  return (
+    entriesA.length === entriesB.length &&
+    entriesA.every(([key, value]) =>
+      isDeepEqual(value, (b as Record<string, unknown>)[key]),
+    )
+  );
+}
+
 /**
  * React context for terminal capability information.
  *
@@ -78,6 +124,18 @@ const defaultTermcapInfo: TermcapInfo = {
  */
 export const TermcapContext = createContext<TermcapInfo | undefined>(undefined);
 
+/**
+ * React context for re-querying terminal colors.
+ *
+ * Holds the provider's `refresh` function. Use the `useTermcapRefresh`
+ * hook instead of accessing this context directly.
+ *
+ * @see {@link useTermcapRefresh}
+ */
+export const TermcapRefreshContext = createContext<
+  (() => Promise<void>) | undefined
+>(undefined);
+
 /**
  * Props for the `TermcapProvider` component.
  *
@@ -191,6 +249,119 @@ export interface TermcapProviderProps {
    * ```
    */
   initialCapabilities?: TermcapInfo;
+
+  /**
+   * Additional features to detect alongside the built-in ones.
+   *
+   * Their values are added to the provided capabilities under each
+   * feature's `key` and can be read with `useTermcap<typeof features>()`.
+   * Define the array outside the component (or memoize it) so detection
+   * is not restarted on every render.
+   *
+   * @example
+   * ```tsx
+   * const features = [CursorStyleFeature] as const;
+   *
+   * function Status() {
+   *   const { cursorStyle } = useTermcap<typeof features>();
+   *   return <Text>Cursor style: {cursorStyle ?? "unknown"}</Text>;
+   * }
+   *
+   * <TermcapProvider features={features}>
+   *   <Status />
+   * </TermcapProvider>
+   * ```
+   */
+  features?: readonly TermcapFeature[];
+
+  /**
+   * Track color scheme changes.
+   *
+   * When `true` and the terminal supports color scheme notifications
+   * (DEC mode 2031, see `TermcapInfo.colorSchemeUpdates`), the provider
+   * enables the mode after detection and re-queries the background,
+   * foreground and palette colors whenever the user switches between a
+   * dark and a light theme. The mode is disabled again on unmount.
+   *
+   * For terminals without notifications, call the function returned by
+   * `useTermcapRefresh()` to re-query the colors manually.
+   *
+   * @defaultValue true
+   *
+   * @example Disabling live updates
+   * ```tsx
+   * <TermcapProvider trackColorScheme={false}>
+   *   <App />
+   * </TermcapProvider>
+   * ```
+   */
+  trackColorScheme?: boolean;
+
+  /**
+   * Collect a detection report, available through
+   * `useTermcapDiagnostics()` and `TermcapInfo.diagnostics`.
+   *
+   * The report contains the queries sent, the raw replies with their
+   * arrival times and the features that timed out - attach it to bug
+   * reports about mis-detected capabilities.
+   *
+   * @defaultValue false
+   */
+  diagnostics?: boolean;
+
+  /**
+   * Cache detection results on disk.
+   *
+   * With a cache entry for the same `TERM`, `TERM_PROGRAM` and tty, the
+   * provider renders the cached values with `isReady: true` from the first
+   * render, re-runs detection in the background and updates the context if
+   * anything changed. The entry may have been written for another emulator
+   * started from the same shell; detection replaces it once the terminal
+   * has answered, and results are stored under the terminal's XTVERSION
+   * reply. Pass a path to use a different cache file.
+   *
+   * @defaultValue false
+   *
+   * @example Instant startup for short-lived commands
+   * ```tsx
+   * <TermcapProvider cache>
+   *   <App />
+   * </TermcapProvider>
+   * ```
+   *
+   * @see {@link getTermcapCachePath} - Default cache location
+   */
+  cache?: boolean | string;
+
+  /**
+   * Query the terminal emulator through tmux or GNU screen instead of the
+   * multiplexer itself.
+   *
+   * See `QueryOptions.passthrough` for the multiplexer configuration this
+   * requires. `TermcapInfo.layers` reports which layer answered.
+   *
+   * @defaultValue false
+   */
+  passthrough?: boolean;
+
+  /**
+   * Size the detection wait from the measured round-trip time instead of
+   * `timeout`, which then only bounds the latency probe.
+   *
+   * Recommended over SSH, where replies can take longer than the default
+   * timeout; see `QueryOptions.adaptiveTimeout` and
+   * `TermcapInfo.remoteSession`.
+   *
+   * @defaultValue false
+   *
+   * @example Adapting only in remote sessions
+   * ```tsx
+   * <TermcapProvider adaptiveTimeout={getRemoteSession() !== undefined}>
+   *   <App />
+   * </TermcapProvider>
+   * ```
+   */
+  adaptiveTimeout?: boolean;
 }
 
 /**
@@ -202,12 +373,17 @@ export interface TermcapProviderProps {
  *
  * ## Lifecycle
  *
- * 1. **Mount**: Enables raw mode and sends detection queries to the terminal
+ * 1. **Mount**: Provides provisional values inferred from environment
+ *    variables, enables raw mode and sends detection queries to the
+ *    terminal. With `cache`, cached values are provided instead until
+ *    detection completes
  * 2. **Detection**: Listens for terminal responses and parses capabilities
  * 3. **Complete**: Either:
  *    - All responses received (triggered by Device Attributes response)
  *    - Timeout reached (returns whatever was detected)
- * 4. **Unmount**: Cleanup (detection may be aborted if still in progress)
+ * 4. **Updates**: If the terminal supports color scheme notifications,
+ *    colors are re-queried whenever the theme changes
+ * 5. **Unmount**: Cleanup (detection may be aborted if still in progress)
  *
  * ## Raw Mode
  *
@@ -266,42 +442,158 @@ export function TermcapProvider({
   children,
   timeout = DEFAULT_DETECTION_TIMEOUT,
   initialCapabilities,
+  features,
+  trackColorScheme = true,
+  diagnostics = false,
+  cache = false,
+  passthrough = false,
+  adaptiveTimeout = false,
 }: TermcapProviderProps): React.ReactElement {
-  const [capabilities, setCapabilities] = useState<TermcapInfo>(
-    initialCapabilities ?? defaultTermcapInfo,
-  );
-
   const { stdin, setRawMode } = useStdin();
   const { stdout } = useStdout();
 
+  let cachePath: string | undefined;
+  if (cache && !initialCapabilities) {
+    cachePath = typeof cache === "string" ? cache : getTermcapCachePath();
+  }
+  const identity = useMemo(() => getTerminalIdentity(stdin), [stdin]);
+
+  const [capabilities, setCapabilities] = useState<TermcapInfo>(() => {
+    if (initialCapabilities) {
+      return initialCapabilities;
+    }
+    const cached = cachePath && findTermcapCache(identity, cachePath);
+    if (cached) {
+      return cached;
+    }
+    const info: TermcapInfo & Record<string, unknown> = {
+      ...defaultTermcapInfo,
+    };
+    for (const feature of features ?? []) {
+      info[feature.key] = feature.defaultValue;
+    }
+    // Render with environment heuristics until the terminal has answered
+    return { ...info, ...detectTermcapFromEnv() };
+  });
+
+  // Aborts pending color refreshes on unmount
+  const unmountRef = useRef(new AbortController());
+  useEffect(() => {
+    const controller = new AbortController();
+    unmountRef.current = controller;
+    return () => {
+      controller.abort();
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    // Never query the terminal when detection was skipped
+    if (initialCapabilities) {
+      return;
+    }
+
+    const { signal } = unmountRef.current;
+    if (signal.aborted) {
+      return;
+    }
+
+    let colors;
+    try {
+      colors = await queryFeatures(stdin, stdout, timeout, COLOR_FEATURES, {
+        signal,
+        passthrough,
+      });
+    } catch {
+      // Unmounted while querying
+      return;
+    }
+    setCapabilities((previous) => ({
+      ...previous,
+      backgroundColor: colors.backgroundColor ?? previous.backgroundColor,
+      palette: colors.palette ?? previous.palette,
+    }));
+  }, [initialCapabilities, stdin, stdout, timeout, passthrough]);
+
   useEffect(() => {
     // Skip detection if initial capabilities provided
     if (initialCapabilities) {
       return;
     }
 
-    let mounted = true;
+    const controller = new AbortController();
+    const path = cachePath;
 
     // Enable raw mode for detection
     setRawMode(true);
 
-    detectTermcap(stdin, stdout, timeout).then((result) => {
-      if (mounted) {
-        setCapabilities(result);
+    detectTermcap(stdin, stdout, timeout, features, {
+      signal: controller.signal,
+      diagnostics,
+      passthrough,
+      adaptiveTimeout,
+    }).then(
+      (result) => {
+        if (path) {
+          const xtversion =
+            result.sources?.terminalName === "query"
+              ? result.terminalName
+              : undefined;
+          writeTermcapCache({ ...identity, xtversion }, result, path);
+        }
+        setCapabilities((previous) =>
+          isDeepEqual(previous, result) ? previous : result,
+        );
         // We don't disable raw mode here as Tinky applications usually need it.
         // If necessary, the consumer can manage raw mode.
-      }
-    });
+      },
+      () => {
+        // Aborted on unmount or because the timeout or streams changed
+      },
+    );
 
     return () => {
-      mounted = false;
+      controller.abort();
     };
-  }, [timeout, initialCapabilities, stdin, stdout, setRawMode]);
+  }, [
+    timeout,
+    initialCapabilities,
+    features,
+    diagnostics,
+    passthrough,
+    adaptiveTimeout,
+    cachePath,
+    identity,
+    stdin,
+    stdout,
+    setRawMode,
+  ]);
+
+  const { colorSchemeUpdates } = capabilities;
+  useEffect(() => {
+    if (initialCapabilities || !trackColorScheme || !colorSchemeUpdates) {
+      return;
+    }
+
+    return watchColorScheme(stdin, stdout, () => {
+      void refresh();
+    });
+  }, [
+    initialCapabilities,
+    trackColorScheme,
+    colorSchemeUpdates,
+    stdin,
+    stdout,
+    refresh,
+  ]);
 
   const value = useMemo(() => capabilities, [capabilities]);
 
   return (
-    <TermcapContext.Provider value={value}>{children}</TermcapContext.Provider>
+    <TermcapContext.Provider value={value}>
+      <TermcapRefreshContext.Provider value={refresh}>
+        {children}
+      </TermcapRefreshContext.Provider>
+    </TermcapContext.Provider>
   );
 }
 
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview React hook for clipboard access through OSC 52.
+ *
+ * This module provides the `useClipboard` hook, which copies text to the
+ * terminal's clipboard and attempts to read it back, passing the sequences
+ * through tmux or screen when needed.
+ *
+ * @example
+ * ```tsx
+ * import { useClipboard } from "tinky-termcap";
+ *
+ * function CopyButton({ text }: { text: string }) {
+ *   const clipboard = useClipboard();
+ *   useInput((input) => {
+ *     if (input === "y") clipboard.write(text);
+ *   });
+ *   return <Text>{clipboard.supported ? "y: copy" : "Copying unsupported"}</Text>;
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useMemo } from "react";
+import { useStdin, useStdout } from "tinky";
+import { useTermcap } from "./use-termcap.js";
+import {
+  type ClipboardSelection,
+  readClipboard,
+  writeClipboard,
+} from "../utils/clipboard.js";
+
+/**
+ * Options for {@link useClipboard}.
+ */
+export interface UseClipboardOptions {
+  /**
+   * Pass the sequences through tmux or screen to the outer terminal.
+   *
+   * @defaultValue true
+   */
+  passthrough?: boolean;
+
+  /**
+   * Maximum size in bytes of copied text.
+   *
+   * @defaultValue `DEFAULT_CLIPBOARD_MAX_BYTES`
+   */
+  maxBytes?: number;
+
+  /**
+   * Time in milliseconds to wait for the terminal to report the clipboard.
+   *
+   * @defaultValue `DEFAULT_CLIPBOARD_READ_TIMEOUT`
+   */
+  timeout?: number;
+}
+
+/**
+ * Clipboard access returned by {@link useClipboard}.
+ */
+export interface ClipboardAccess {
+  /** Whether the terminal accepts OSC 52 writes (`TermcapInfo.clipboard`). */
+  supported: boolean;
+
+  /**
+   * Copy text. Returns `false` if nothing was written, e.g. because the
+   * text exceeds `maxBytes`.
+   */
+  write: (text: string, selection?: ClipboardSelection) => boolean;
+
+  /**
+   * Read the clipboard. Resolves to `undefined` if the terminal does not
+   * allow reads or does not answer within `timeout`.
+   */
+  read: (selection?: ClipboardSelection) => Promise<string | undefined>;
+}
+
+/**
+ * React hook for copying to and reading from the terminal's clipboard.
+ *
+ * Writes use OSC 52 with base64-encoded text and work over SSH. Inside
+ * tmux or screen, the sequences are wrapped for passthrough so the outer
+ * terminal handles them. Reads use `OSC 52 ; c ; ?`, which many terminals
+ * disable; `read` then resolves to `undefined` after the timeout.
+ *
+ * `write` also works when `supported` is `false`, since terminals that
+ * implement OSC 52 without announcing it are common; `supported` is meant
+ * for deciding whether to offer copying in the UI.
+ *
+ * @param options - Passthrough, size limit and read timeout
+ * @returns Clipboard access functions and the detected support
+ *
+ * @throws Error if used outside of a `TermcapProvider`
+ *
+ * @example
+ * ```tsx
+ * function Paste() {
+ *   const { read } = useClipboard({ timeout: 500 });
+ *   const [text, setText] = useState<string>();
+ *
+ *   useEffect(() => {
+ *     void read().then(setText);
+ *   }, [read]);
+ *
+ *   return <Text>{text ?? "Clipboard not readable"}</Text>;
+ * }
+ * ```
+ *
+ * @see {@link writeClipboard} - The non-React equivalent for writes
+ * @see {@link readClipboard} - The non-React equivalent for reads
+ */
+export function useClipboard(
+  options: UseClipboardOptions = {},
+): ClipboardAccess {
+  const { passthrough = true, maxBytes, timeout } = options;
+  const { clipboard, multiplexer } = useTermcap();
+  const { stdin } = useStdin();
+  const { stdout } = useStdout();
+  const wrapFor = passthrough ? multiplexer : undefined;
+
+  return useMemo(
+    () => ({
+      supported: clipboard ?? false,
+      write: (text, selection) =>
+        writeClipboard(stdout, text, {
+          selection,
+          multiplexer: wrapFor,
+          maxBytes,
+        }),
+      read: (selection) =>
+        readClipboard(stdin, stdout, {
+          selection,
+          multiplexer: wrapFor,
+          timeout,
+        }),
+    }),
+    [clipboard, stdin, stdout, wrapFor, maxBytes, timeout],
+  );
+}
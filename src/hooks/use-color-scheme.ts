@@ -0,0 +1,54 @@
+/**
+ * @fileoverview React hook for the terminal color scheme.
+ *
+ * This module provides the `useColorScheme` hook, which classifies the
+ * detected terminal background as dark or light.
+ *
+ * @example
+ * ```tsx
+ * import { useColorScheme } from "tinky-termcap";
+ *
+ * function Title({ children }: { children: string }) {
+ *   const scheme = useColorScheme();
+ *   return <Text color={scheme === "light" ? "blue" : "cyan"}>{children}</Text>;
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useMemo } from "react";
+import { useTermcap } from "./use-termcap.js";
+import { type ColorScheme, getColorScheme } from "../utils/colors.js";
+
+/**
+ * React hook returning the terminal color scheme.
+ *
+ * The scheme is derived from the detected background color (OSC 11). When
+ * the terminal does not report its background, or while detection is still
+ * running, it falls back to the `COLORFGBG` environment variable.
+ *
+ * @returns `"dark"`, `"light"` or `"unknown"` if neither source is available
+ *
+ * @throws Error if used outside of a `TermcapProvider`
+ *
+ * @example Adapting UI based on terminal theme
+ * ```tsx
+ * import { useColorScheme } from "tinky-termcap";
+ *
+ * function ThemedText({ children }: { children: string }) {
+ *   const scheme = useColorScheme();
+ *
+ *   // Assume dark if unknown
+ *   return (
+ *     <Text color={scheme === "light" ? "black" : "white"}>{children}</Text>
+ *   );
+ * }
+ * ```
+ *
+ * @see {@link getColorScheme} - The non-React equivalent
+ */
+export function useColorScheme(): ColorScheme {
+  const { backgroundColor } = useTermcap();
+  return useMemo(() => getColorScheme(backgroundColor), [backgroundColor]);
+}
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview React hook for enhanced keyboard input.
+ *
+ * This module provides the `useEnhancedInput` hook, an alternative to
+ * tinky's `useInput` that delivers structured key events with full
+ * modifier and press/repeat/release information on terminals that support
+ * it.
+ *
+ * @example
+ * ```tsx
+ * import { useEnhancedInput } from "tinky-termcap";
+ *
+ * function Editor() {
+ *   useEnhancedInput((event) => {
+ *     if (event.key === "i" && event.modifiers.ctrl) {
+ *       // Ctrl+I, distinct from Tab
+ *     }
+ *   });
+ *
+ *   return <Text>Editing...</Text>;
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useEffect, useRef } from "react";
+import { useStdin } from "tinky";
+import { useTermcap } from "./use-termcap.js";
+import { isEncodedCtrlC } from "./use-exit-on-ctrl-c.js";
+import { useKittyKeyboard } from "./use-kitty-keyboard.js";
+import { useModifyOtherKeys } from "./use-modify-other-keys.js";
+import {
+  KITTY_KEYBOARD_FLAGS,
+  type KittyKeyboardFlags,
+} from "../utils/kitty-keyboard.js";
+import { type KeyEvent, parseKeys } from "../utils/parse-keys.js";
+
+/**
+ * Keyboard encoding used by {@link useEnhancedInput}.
+ *
+ * - `"kitty"` - Kitty keyboard protocol
+ * - `"modifyOtherKeys"` - xterm modifyOtherKeys level 2
+ * - `"legacy"` - traditional escape sequences (also used while detection
+ *   is running)
+ */
+export type EnhancedInputMode = "kitty" | "modifyOtherKeys" | "legacy";
+
+/**
+ * Options for {@link useEnhancedInput}.
+ */
+export interface EnhancedInputOptions {
+  /**
+   * Enable or disable capturing of input, like tinky's `useInput`.
+   *
+   * @defaultValue true
+   */
+  isActive?: boolean;
+
+  /**
+   * Kitty keyboard flags to push in `"kitty"` mode.
+   *
+   * @defaultValue `{ disambiguate: true, reportEventTypes: true, reportAlternateKeys: true }`
+   */
+  kittyFlags?: Partial<KittyKeyboardFlags> | number;
+}
+
+/**
+ * Kitty flags pushed by {@link useEnhancedInput} unless overridden.
+ *
+ * @internal
+ */
+const DEFAULT_KITTY_FLAGS =
+  KITTY_KEYBOARD_FLAGS.disambiguate |
+  KITTY_KEYBOARD_FLAGS.reportEventTypes |
+  KITTY_KEYBOARD_FLAGS.reportAlternateKeys;
+
+/**
+ * React hook that delivers decoded key events.
+ *
+ * The best keyboard encoding the terminal supports is enabled
+ * automatically while the hook is active:
+ *
+ * 1. Kitty keyboard protocol if `TermcapInfo.kittyProtocol` is `true`
+ * 2. modifyOtherKeys level 2 if the terminal reported a
+ *    `TermcapInfo.modifyOtherKeysLevel`
+ * 3. Legacy sequences otherwise
+ *
+ * The encodings are enabled with {@link useKittyKeyboard} and
+ * {@link useModifyOtherKeys}, which restore the previous terminal state
+ * when the hook becomes inactive or unmounts, and on process exit,
+ * `SIGINT`, `SIGTERM` and uncaught exceptions. Do not call those hooks
+ * alongside this one: the Kitty flag stack and the modifyOtherKeys level
+ * are shared, so either hook could undo the other's setting. Input is
+ * decoded with {@link parseKeys}, which understands all three encodings.
+ *
+ * Both enhanced encodings also change the sequence for Ctrl+C, which tinky
+ * only recognizes as `\x03`. The hook therefore exits the app itself when
+ * it was rendered with `exitOnCtrlC` (the default); the handler does not
+ * receive Ctrl+C then, just like with `useInput`. tinky's `useInput`
+ * handlers receive the enhanced sequences undecoded while the hook is
+ * active, so handle keyboard input with this hook alone.
+ *
+ * @param handler - Called for each key event
+ * @param options - Hook options
+ * @returns The keyboard encoding in use
+ *
+ * @throws Error if used outside of a `TermcapProvider`
+ *
+ * @example Handling key releases
+ * ```tsx
+ * function Game() {
+ *   const [held, setHeld] = useState(new Set<string>());
+ *
+ *   const mode = useEnhancedInput((event) => {
+ *     setHeld((keys) => {
+ *       const next = new Set(keys);
+ *       if (event.eventType === "release") {
+ *         next.delete(event.key);
+ *       } else {
+ *         next.add(event.key);
+ *       }
+ *       return next;
+ *     });
+ *   });
+ *
+ *   return <Text>{mode === "kitty" ? [...held].join(" ") : "No key releases"}</Text>;
+ * }
+ * ```
+ */
+export function useEnhancedInput(
+  handler: (event: KeyEvent) => void,
+  options: EnhancedInputOptions = {},
+): EnhancedInputMode {
+  const { isActive = true, kittyFlags = DEFAULT_KITTY_FLAGS } = options;
+  const { isReady, kittyProtocol, modifyOtherKeysLevel } = useTermcap();
+  const { stdin, setRawMode, internal_exitOnCtrlC } = useStdin();
+
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  let mode: EnhancedInputMode = "legacy";
+  if (isReady && kittyProtocol) {
+    mode = "kitty";
+  } else if (isReady && modifyOtherKeysLevel !== undefined) {
+    mode = "modifyOtherKeys";
+  }
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    setRawMode(true);
+    return () => {
+      setRawMode(false);
+    };
+  }, [isActive, setRawMode]);
+
+  // Both hooks exit the app on an encoded Ctrl+C themselves
+  useKittyKeyboard(kittyFlags, { isActive: isActive && mode === "kitty" });
+  useModifyOtherKeys(2, {
+    isActive: isActive && mode === "modifyOtherKeys",
+  });
+  const exitsOnCtrlC = isActive && mode !== "legacy" && internal_exitOnCtrlC;
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    const onData = (data: unknown) => {
+      for (const event of parseKeys(String(data))) {
+        if (!(exitsOnCtrlC && isEncodedCtrlC(event))) {
+          handlerRef.current(event);
+        }
+      }
+    };
+    stdin?.on?.("data", onData);
+    return () => {
+      stdin?.off?.("data", onData);
+    };
+  }, [isActive, stdin, exitsOnCtrlC]);
+
+  return mode;
+}
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Ctrl+C handling for enhanced keyboard encodings.
+ *
+ * tinky exits on Ctrl+C by comparing the input with `\x03`. With the Kitty
+ * keyboard protocol or modifyOtherKeys level 2, the terminal encodes Ctrl+C
+ * as `CSI 99 ; 5 u` or `CSI 27 ; 5 ; 99 ~` instead, so tinky no longer
+ * notices it. This module restores tinky's behavior for hooks that enable
+ * those encodings.
+ *
+ * @packageDocumentation
+ */
+
+import { useEffect } from "react";
+import { useApp, useStdin } from "tinky";
+import { type KeyEvent, parseKeys } from "../utils/parse-keys.js";
+
+/**
+ * Check whether a key event is a Ctrl+C press in an enhanced encoding.
+ *
+ * The legacy `\x03` is excluded, since tinky handles it itself.
+ *
+ * @param event - Decoded key event
+ * @returns `true` for a Ctrl+C press sent as a Kitty or modifyOtherKeys
+ *   sequence
+ *
+ * @internal
+ */
+export function isEncodedCtrlC(event: KeyEvent): boolean {
+  const { ctrl, shift, alt, super: superKey } = event.modifiers;
+  return (
+    event.key === "c" &&
+    ctrl &&
+    !shift &&
+    !alt &&
+    !superKey &&
+    event.eventType === "press" &&
+    event.sequence !== "\x03"
+  );
+}
+
+/**
+ * React hook that exits the tinky app on an encoded Ctrl+C.
+ *
+ * Only acts when the app was rendered with `exitOnCtrlC` (tinky's
+ * default), and then calls the same `exit` as tinky does for `\x03`.
+ *
+ * @param isActive - Whether an enhanced keyboard encoding is enabled
+ * @returns `true` if encoded Ctrl+C presses exit the app, in which case
+ *   they should not be handled as input
+ *
+ * @internal
+ */
+export function useExitOnCtrlC(isActive: boolean): boolean {
+  const { stdin, internal_exitOnCtrlC } = useStdin();
+  const { exit } = useApp();
+  const enabled = isActive && internal_exitOnCtrlC;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const onData = (data: unknown) => {
+      if (parseKeys(String(data)).some(isEncodedCtrlC)) {
+        exit();
+      }
+    };
+    stdin?.on?.("data", onData);
+    return () => {
+      stdin?.off?.("data", onData);
+    };
+  }, [enabled, stdin, exit]);
+
+  return enabled;
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview React hook for Kitty keyboard protocol enhancements.
+ *
+ * This module provides the `useKittyKeyboard` hook, which pushes Kitty
+ * keyboard enhancement flags while the component is mounted.
+ *
+ * @example
+ * ```tsx
+ * import { useKittyKeyboard } from "tinky-termcap";
+ *
+ * function Editor() {
+ *   const enhanced = useKittyKeyboard({ disambiguate: true });
+ *   return <Text>{enhanced ? "Ctrl+I and Tab differ" : "Legacy keys"}</Text>;
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useEffect } from "react";
+import { useStdout } from "tinky";
+import { useTermcap } from "./use-termcap.js";
+import { useExitOnCtrlC } from "./use-exit-on-ctrl-c.js";
+import {
+  enableKittyKeyboard,
+  encodeKittyKeyboardFlags,
+  type KittyKeyboardFlags,
+} from "../utils/kitty-keyboard.js";
+
+/**
+ * Options for {@link useKittyKeyboard}.
+ */
+export interface UseKittyKeyboardOptions {
+  /**
+   * Push the flags. Set to `false` to pop them without unmounting.
+   *
+   * @defaultValue true
+   */
+  isActive?: boolean;
+}
+
+/**
+ * React hook that enables Kitty keyboard protocol enhancements.
+ *
+ * Once detection has finished and the terminal supports the protocol
+ * (`TermcapInfo.kittyProtocol`), the requested flags are pushed with
+ * `CSI > flags u`. They are popped with `CSI < u` when the component
+ * unmounts, when the flags change (before the new flags are pushed) or when
+ * the process exits.
+ *
+ * With the enhancements, Ctrl+C is no longer sent as `\x03`, so tinky's
+ * `exitOnCtrlC` does not see it; the hook exits the app on Ctrl+C itself
+ * instead. Other keys the flags re-encode reach tinky's `useInput` as raw
+ * escape sequences, so decode input with `parseKeys` while the flags are
+ * pushed, or use `useEnhancedInput` in place of this hook.
+ *
+ * Each call pushes its own flags, and the protocol pops whatever is on top
+ * of the stack, so enable the flags in one place: combining the hook with
+ * another `useKittyKeyboard` or with `useEnhancedInput`, which calls it,
+ * can pop the wrong flags when either changes.
+ *
+ * @param flags - Flags to enable, as an object or a flags number
+ * @param options - Hook options
+ * @returns `true` while the flags are pushed
+ *
+ * @throws Error if used outside of a `TermcapProvider`
+ *
+ * @example
+ * ```tsx
+ * function App() {
+ *   useKittyKeyboard({ disambiguate: true, reportEventTypes: true });
+ *
+ *   useInput((input, key) => {
+ *     // Esc no longer waits for a possible Alt+ sequence
+ *   });
+ *
+ *   return <Main />;
+ * }
+ * ```
+ *
+ * @see {@link enableKittyKeyboard} - The non-React equivalent
+ */
+export function useKittyKeyboard(
+  flags: Partial<KittyKeyboardFlags> | number,
+  options: UseKittyKeyboardOptions = {},
+): boolean {
+  const { isActive = true } = options;
+  const { isReady, kittyProtocol } = useTermcap();
+  const { stdout } = useStdout();
+  const encoded = encodeKittyKeyboardFlags(flags);
+  const active = isActive && isReady && kittyProtocol;
+  useExitOnCtrlC(active);
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    return enableKittyKeyboard(stdout, encoded);
+  }, [active, stdout, encoded]);
+
+  return active;
+}
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview React hook for the modifyOtherKeys mode.
+ *
+ * This module provides the `useModifyOtherKeys` hook, which sets the
+ * modifyOtherKeys level while the component is mounted.
+ *
+ * @example
+ * ```tsx
+ * import { useModifyOtherKeys } from "tinky-termcap";
+ *
+ * function Editor() {
+ *   const enhanced = useModifyOtherKeys(2);
+ *   return <Text>{enhanced ? "Ctrl+I and Tab differ" : "Legacy keys"}</Text>;
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useEffect } from "react";
+import { useStdout } from "tinky";
+import { useTermcap } from "./use-termcap.js";
+import { useExitOnCtrlC } from "./use-exit-on-ctrl-c.js";
+import { setModifyOtherKeys } from "../utils/modify-other-keys.js";
+
+/**
+ * Options for {@link useModifyOtherKeys}.
+ */
+export interface UseModifyOtherKeysOptions {
+  /**
+   * Set the level. Set to `false` to restore the detected level without
+   * unmounting.
+   *
+   * @defaultValue true
+   */
+  isActive?: boolean;
+}
+
+/**
+ * React hook that sets the modifyOtherKeys level.
+ *
+ * Once detection has finished and the terminal reported its current level
+ * (`TermcapInfo.modifyOtherKeysLevel`), the requested level is set with
+ * `CSI > 4 ; level m`. The detected level is restored when the component
+ * unmounts, when `level` changes (before the new level is set), and on
+ * process exit, `SIGINT`, `SIGTERM` and uncaught exceptions.
+ *
+ * Level 2 also sends Ctrl+C as `CSI 27 ; 5 ; 99 ~` instead of `\x03`, so
+ * tinky's `exitOnCtrlC` does not see it; the hook exits the app on Ctrl+C
+ * itself while level 2 is set.
+ *
+ * The terminal has a single level, so set it in one place: combining the
+ * hook with another `useModifyOtherKeys` or with `useEnhancedInput`, which
+ * calls it, restores the detected level as soon as either one unmounts.
+ *
+ * @param level - Level to set: `0`, `1` or `2`
+ * @param options - Hook options
+ * @returns `true` while the level is set
+ *
+ * @throws Error if used outside of a `TermcapProvider`
+ *
+ * @example
+ * ```tsx
+ * function App() {
+ *   const { kittyProtocol } = useTermcap();
+ *   useKittyKeyboard({ disambiguate: true });
+ *   // Fall back to modifyOtherKeys where the Kitty protocol is unavailable
+ *   useModifyOtherKeys(2, { isActive: !kittyProtocol });
+ *
+ *   return <Main />;
+ * }
+ * ```
+ *
+ * @see {@link setModifyOtherKeys} - The non-React equivalent
+ */
+export function useModifyOtherKeys(
+  level: number,
+  options: UseModifyOtherKeysOptions = {},
+): boolean {
+  const { isActive = true } = options;
+  const { isReady, modifyOtherKeysLevel } = useTermcap();
+  const { stdout } = useStdout();
+  const active = isActive && isReady && modifyOtherKeysLevel !== undefined;
+  useExitOnCtrlC(active && level === 2);
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    return setModifyOtherKeys(stdout, level, modifyOtherKeysLevel);
+  }, [active, stdout, level, modifyOtherKeysLevel]);
+
+  return active;
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview React hook for synchronized output.
+ *
+ * This module provides the `useSynchronizedOutput` hook, which brackets
+ * every frame tinky writes with synchronized update sequences on terminals
+ * that support DEC private mode 2026.
+ *
+ * @example
+ * ```tsx
+ * import { useSynchronizedOutput } from "tinky-termcap";
+ *
+ * function Dashboard() {
+ *   const synchronized = useSynchronizedOutput();
+ *   return <Text>{synchronized ? "Flicker-free" : "Plain"} rendering</Text>;
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useEffect } from "react";
+import { useStdout } from "tinky";
+import { useTermcap } from "./use-termcap.js";
+import { PRIVATE_MODES } from "../utils/term-features.js";
+import { synchronizeOutput } from "../utils/synchronized-output.js";
+
+/**
+ * React hook that makes every frame appear at once.
+ *
+ * Once detection has confirmed mode 2026 (`TermcapInfo.modes`), tinky's
+ * stdout is wrapped with {@link synchronizeOutput}: each frame is preceded
+ * by `CSI ? 2026 h` and followed by `CSI ? 2026 l`, and a safety timeout
+ * ends an update that was left open. On terminals that did not confirm the
+ * mode, or report it as permanently reset, the hook does nothing. The
+ * stream is unwrapped when the component unmounts.
+ *
+ * Mode 2026 is not probed by default: pass `EXTENDED_FEATURES` or
+ * `createModeFeatures([PRIVATE_MODES.synchronizedOutput])` to the
+ * provider's `features`.
+ *
+ * @param timeout - Safety timeout in milliseconds. Defaults to
+ *   `DEFAULT_SYNCHRONIZED_UPDATE_TIMEOUT`.
+ * @returns `true` while frames are synchronized
+ *
+ * @throws Error if used outside of a `TermcapProvider`
+ *
+ * @example
+ * ```tsx
+ * const features = createModeFeatures([PRIVATE_MODES.synchronizedOutput]);
+ *
+ * function Table() {
+ *   useSynchronizedOutput();
+ *   return <LargeTable />;
+ * }
+ *
+ * render(
+ *   <TermcapProvider features={features}>
+ *     <Table />
+ *   </TermcapProvider>,
+ * );
+ * ```
+ *
+ * @see {@link synchronizeOutput} - The non-React equivalent
+ */
+export function useSynchronizedOutput(timeout?: number): boolean {
+  const { isReady, modes } = useTermcap();
+  const { stdout } = useStdout();
+  const status = modes?.[PRIVATE_MODES.synchronizedOutput];
+  const active =
+    isReady &&
+    status !== undefined &&
+    status !== "notRecognized" &&
+    status !== "permanentlyReset";
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    return synchronizeOutput(stdout, timeout);
+  }, [active, stdout, timeout]);
+
+  return active;
+}
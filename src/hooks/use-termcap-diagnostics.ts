@@ -0,0 +1,55 @@
+/**
+ * @fileoverview React hook for the detection report.
+ *
+ * This module provides the `useTermcapDiagnostics` hook, which returns the
+ * report collected by a `TermcapProvider` with the `diagnostics` prop.
+ *
+ * @example
+ * ```tsx
+ * import { useTermcapDiagnostics } from "tinky-termcap";
+ *
+ * function BugReportButton() {
+ *   const diagnostics = useTermcapDiagnostics();
+ *   return <Text>{JSON.stringify(diagnostics)}</Text>;
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useTermcap } from "./use-termcap.js";
+import { type TermcapDiagnostics } from "../utils/detect-termcap.js";
+
+/**
+ * React hook returning the detection report.
+ *
+ * @returns The report, or `undefined` while detection is running, when the
+ *   provider's `diagnostics` prop is not set, or when `initialCapabilities`
+ *   were given without one
+ *
+ * @throws Error if used outside of a `TermcapProvider`
+ *
+ * @example Including the report in a crash log
+ * ```tsx
+ * function App() {
+ *   const diagnostics = useTermcapDiagnostics();
+ *
+ *   useEffect(() => {
+ *     setCrashContext({ termcap: diagnostics });
+ *   }, [diagnostics]);
+ *
+ *   return <Main />;
+ * }
+ *
+ * render(
+ *   <TermcapProvider diagnostics>
+ *     <App />
+ *   </TermcapProvider>,
+ * );
+ * ```
+ *
+ * @see {@link TermcapDiagnostics} for the contents of the report
+ */
+export function useTermcapDiagnostics(): TermcapDiagnostics | undefined {
+  return useTermcap().diagnostics;
+}
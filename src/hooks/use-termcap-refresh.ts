@@ -0,0 +1,55 @@
+/**
+ * @fileoverview React hook for re-querying terminal colors.
+ *
+ * This module provides the `useTermcapRefresh` hook, which returns a
+ * function that re-queries the terminal's background, foreground and
+ * palette colors and updates the values returned by `useTermcap`.
+ *
+ * @example
+ * ```tsx
+ * import { useInput } from "tinky";
+ * import { useTermcapRefresh } from "tinky-termcap";
+ *
+ * function ThemeReloader() {
+ *   const refresh = useTermcapRefresh();
+ *
+ *   useInput((input) => {
+ *     if (input === "r") {
+ *       void refresh();
+ *     }
+ *   });
+ *
+ *   return <Text>Press "r" after changing your terminal theme</Text>;
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { useContext } from "react";
+import { TermcapRefreshContext } from "../contexts/TermcapContext.js";
+
+/**
+ * React hook returning a function that re-queries terminal colors.
+ *
+ * `TermcapProvider` re-queries colors automatically on terminals that
+ * report color scheme changes (`TermcapInfo.colorSchemeUpdates`). For other
+ * terminals, call the returned function when the theme may have changed,
+ * e.g. on a key binding or when the app regains focus.
+ *
+ * @returns Function that re-queries the colors. The returned promise
+ *   resolves once the context has been updated; it resolves immediately
+ *   when the provider was given `initialCapabilities`.
+ *
+ * @throws Error if used outside of a `TermcapProvider`. The error message
+ *   will be: "useTermcapRefresh must be used within a TermcapProvider"
+ *
+ * @see {@link TermcapProviderProps.trackColorScheme} - Automatic updates
+ */
+export function useTermcapRefresh(): () => Promise<void> {
+  const refresh = useContext(TermcapRefreshContext);
+  if (!refresh) {
+    throw new Error("useTermcapRefresh must be used within a TermcapProvider");
+  }
+  return refresh;
+}
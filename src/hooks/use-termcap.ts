@@ -38,6 +38,10 @@
 import { useContext } from "react";
 import { TermcapContext } from "../contexts/TermcapContext.js";
 import { type TermcapInfo } from "../utils/detect-termcap.js";
+import {
+  type FeatureResults,
+  type TermcapFeature,
+} from "../utils/term-features.js";
 
 /**
  * React hook to access terminal capability information.
@@ -46,6 +50,9 @@ import { type TermcapInfo } from "../utils/detect-termcap.js";
  * detected terminal capabilities. It must be used within a component
  * that is a descendant of `TermcapProvider`.
  *
+ * @typeParam F - Custom features passed to the provider's `features` prop,
+ *   used to type their results. The hook does not check that the provider
+ *   was actually given these features.
  * @returns The current terminal capability information.
  *
  * @throws Error if used outside of a `TermcapProvider`. The error message
@@ -78,23 +85,13 @@ import { type TermcapInfo } from "../utils/detect-termcap.js";
  *
  * @example Adapting UI based on terminal theme
  * ```tsx
- * import { useTermcap } from "tinky-termcap";
+ * import { isDarkColor, useTermcap } from "tinky-termcap";
  *
  * function ThemedText({ children }: { children: string }) {
  *   const { backgroundColor } = useTermcap();
  *
- *   // Determine if terminal has dark background
- *   const isDark = useMemo(() => {
- *     if (!backgroundColor) return true; // Assume dark if unknown
- *
- *     const hex = backgroundColor.slice(1);
- *     const r = parseInt(hex.slice(0, 2), 16);
- *     const g = parseInt(hex.slice(2, 4), 16);
- *     const b = parseInt(hex.slice(4, 6), 16);
- *     const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
- *
- *     return luminance < 0.5;
- *   }, [backgroundColor]);
+ *   // Assume dark if unknown; see also useColorScheme()
+ *   const isDark = !backgroundColor || isDarkColor(backgroundColor);
  *
  *   return (
  *     <Text color={isDark ? "white" : "black"}>
@@ -130,32 +127,28 @@ import { type TermcapInfo } from "../utils/detect-termcap.js";
  * import { useTermcap } from "tinky-termcap";
  *
  * function ImageViewer({ imagePath }: { imagePath: string }) {
- *   const { terminalName, kittyProtocol } = useTermcap();
- *
- *   const supportsImages = useMemo(() => {
- *     if (!terminalName) return false;
- *     return (
- *       terminalName.includes("kitty") ||
- *       terminalName.includes("WezTerm") ||
- *       terminalName.includes("iTerm")
- *     );
- *   }, [terminalName]);
- *
- *   if (!supportsImages) {
- *     return <Text>Image viewing not supported in this terminal</Text>;
+ *   const { graphics } = useTermcap();
+ *
+ *   if (graphics?.kitty) {
+ *     return <KittyImage src={imagePath} />;
+ *   }
+ *   if (graphics?.sixel) {
+ *     return <SixelImage src={imagePath} />;
  *   }
  *
- *   return <KittyImage src={imagePath} />;
+ *   return <Text>Image viewing not supported in this terminal</Text>;
  * }
  * ```
  *
  * @see {@link TermcapProvider} - The provider component that must wrap components using this hook
  * @see {@link TermcapInfo} - The type definition for the returned capabilities object
  */
-export function useTermcap(): TermcapInfo {
+export function useTermcap<
+  F extends readonly TermcapFeature[] = [],
+>(): TermcapInfo & FeatureResults<F> {
   const context = useContext(TermcapContext);
   if (!context) {
     throw new Error("useTermcap must be used within a TermcapProvider");
   }
-  return context;
+  return context as TermcapInfo & FeatureResults<F>;
 }
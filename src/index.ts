@@ -79,15 +79,287 @@ export {
  */
 export { useTermcap } from "./hooks/use-termcap.js";
 
+/**
+ * React hook for the terminal color scheme.
+ *
+ * Returns `"dark"`, `"light"` or `"unknown"`, derived from the detected
+ * background color with a `COLORFGBG` fallback.
+ */
+export { useColorScheme } from "./hooks/use-color-scheme.js";
+
+/**
+ * React hook returning a function that re-queries the terminal colors.
+ *
+ * Use it on terminals that do not report color scheme changes.
+ */
+export { useTermcapRefresh } from "./hooks/use-termcap-refresh.js";
+
+/**
+ * React hook that pushes Kitty keyboard enhancement flags while mounted.
+ */
+export {
+  useKittyKeyboard,
+  type UseKittyKeyboardOptions,
+} from "./hooks/use-kitty-keyboard.js";
+
+/**
+ * React hook that sets the modifyOtherKeys level while mounted.
+ */
+export {
+  useModifyOtherKeys,
+  type UseModifyOtherKeysOptions,
+} from "./hooks/use-modify-other-keys.js";
+
+/**
+ * React hook that synchronizes tinky's frames on terminals supporting
+ * mode 2026.
+ */
+export { useSynchronizedOutput } from "./hooks/use-synchronized-output.js";
+
+/**
+ * React hook for copying to and reading from the clipboard with OSC 52.
+ */
+export {
+  useClipboard,
+  type ClipboardAccess,
+  type UseClipboardOptions,
+} from "./hooks/use-clipboard.js";
+
+/**
+ * React hook delivering decoded key events, enabling the Kitty keyboard
+ * protocol or modifyOtherKeys when the terminal supports them.
+ */
+export {
+  useEnhancedInput,
+  type EnhancedInputMode,
+  type EnhancedInputOptions,
+} from "./hooks/use-enhanced-input.js";
+
+/**
+ * React hook returning the detection report collected by a
+ * `TermcapProvider` with the `diagnostics` prop.
+ */
+export { useTermcapDiagnostics } from "./hooks/use-termcap-diagnostics.js";
+
 /**
  * Low-level terminal capability detection function.
  *
  * Use this directly when you need capability detection outside of React,
  * or when you need more control over the detection process.
  */
-export { detectTermcap } from "./utils/detect-termcap.js";
+export {
+  detectTermcap,
+  queryFeatures,
+  queryTermcap,
+  type DetectTermcapOptions,
+  type QueryOptions,
+  type TermcapDiagnostics,
+  type TermcapResponse,
+} from "./utils/detect-termcap.js";
+
+/**
+ * Environment-variable heuristics used as a fallback for unanswered queries.
+ */
+export {
+  detectTermcapFromEnv,
+  getForcedColorDepth,
+  TERMCAP_ENV_VARIABLES,
+  type CapabilitySource,
+} from "./utils/env-termcap.js";
+
+/**
+ * Color scheme change notifications (DEC mode 2031) for use without
+ * `TermcapProvider`.
+ */
+export {
+  DISABLE_COLOR_SCHEME_UPDATES,
+  ENABLE_COLOR_SCHEME_UPDATES,
+  watchColorScheme,
+} from "./utils/color-scheme-updates.js";
+
+/**
+ * Kitty keyboard protocol flags and push/pop management for use without
+ * React.
+ */
+export {
+  decodeKittyKeyboardFlags,
+  enableKittyKeyboard,
+  encodeKittyKeyboardFlags,
+  KITTY_KEYBOARD_FLAGS,
+  type KittyKeyboardFlags,
+} from "./utils/kitty-keyboard.js";
+
+/**
+ * modifyOtherKeys level management with guaranteed restore, for use
+ * without React.
+ */
+export { setModifyOtherKeys } from "./utils/modify-other-keys.js";
+
+/**
+ * OSC 52 clipboard writes and reads, for use without React.
+ */
+export {
+  DEFAULT_CLIPBOARD_MAX_BYTES,
+  DEFAULT_CLIPBOARD_READ_TIMEOUT,
+  readClipboard,
+  writeClipboard,
+  type ClipboardOptions,
+  type ClipboardReadOptions,
+  type ClipboardSelection,
+  type ClipboardWriteOptions,
+} from "./utils/clipboard.js";
+
+/**
+ * Synchronized output (mode 2026) stream wrapper.
+ */
+export {
+  BEGIN_SYNCHRONIZED_UPDATE,
+  DEFAULT_SYNCHRONIZED_UPDATE_TIMEOUT,
+  END_SYNCHRONIZED_UPDATE,
+  synchronizeOutput,
+} from "./utils/synchronized-output.js";
+
+/**
+ * Keyboard input decoder for Kitty, modifyOtherKeys and legacy sequences.
+ */
+export {
+  parseKeys,
+  type KeyEvent,
+  type KeyEventType,
+  type KeyModifiers,
+} from "./utils/parse-keys.js";
+
+/**
+ * Separation of terminal replies from user input on stdin.
+ */
+export {
+  DEFAULT_RESPONSE_GRACE_PERIOD,
+  filterTerminalResponses,
+  splitTerminalResponses,
+  type SplitResponses,
+} from "./utils/response-filter.js";
+
+/**
+ * Plain-text formatting of detection results, e.g. for debug screens and
+ * bug reports.
+ */
+export { formatDiagnostics, formatTermcap } from "./utils/format-termcap.js";
+
+/**
+ * Terminal multiplexer (tmux, GNU screen) detection and query passthrough.
+ */
+export {
+  getMultiplexer,
+  identifyMultiplexer,
+  type Multiplexer,
+  type TermcapLayer,
+  wrapForPassthrough,
+} from "./utils/multiplexer.js";
+
+/**
+ * SSH, mosh and container session detection.
+ */
+export {
+  getRemoteSession,
+  type RemoteSession,
+} from "./utils/remote-session.js";
+
+/**
+ * On-disk cache of detection results, keyed by terminal identity.
+ */
+export {
+  findTermcapCache,
+  getTermcapCachePath,
+  getTerminalIdentity,
+  readTermcapCache,
+  type TerminalIdentity,
+  writeTermcapCache,
+} from "./utils/termcap-cache.js";
+
+/**
+ * Reader for compiled entries of the local terminfo database.
+ */
+export {
+  findTerminfoFile,
+  getTerminfoSearchPath,
+  parseTerminfo,
+  readTerminfo,
+  type TerminfoEntry,
+  toTerminfoCapabilities,
+} from "./utils/terminfo-database.js";
 
 /**
  * Re-export additional types and constants for advanced usage.
  */
 export { DEFAULT_DETECTION_TIMEOUT } from "./utils/detect-termcap.js";
+
+/**
+ * Terminal feature definitions and the registry types used to add custom
+ * probes to detection.
+ *
+ * @see {@link TermcapFeature} for the shape of a detectable feature
+ */
+export {
+  ANSI_PALETTE_SIZE,
+  BUILTIN_FEATURES,
+  ClipboardFeature,
+  COLOR_FEATURES,
+  ColorDepthFeature,
+  ColorSchemeUpdatesFeature,
+  createModeFeatures,
+  createTerminfoFeatures,
+  defineFeature,
+  DeviceAttributesFeature,
+  encodeTerminfoName,
+  EXTENDED_FEATURES,
+  KittyFeature,
+  KittyGraphicsFeature,
+  KittyKeyboardFlagsFeature,
+  isModeSupported,
+  ModeFeatures,
+  ModifyOtherKeysFeature,
+  ModifyOtherKeysLevelFeature,
+  Osc10Feature,
+  Osc11Feature,
+  Osc12Feature,
+  Osc4Features,
+  PRIVATE_MODES,
+  SecondaryDeviceAttributesFeature,
+  SixelColorRegistersFeature,
+  SixelGeometryFeature,
+  TERMINFO_CAPABILITIES,
+  TerminalNameFeature,
+  TerminfoFeatures,
+  TertiaryDeviceAttributesFeature,
+  type ColorDepth,
+  type DeviceAttribute,
+  type DeviceAttributes,
+  type FeatureResults,
+  type GraphicsSupport,
+  type ModeStatus,
+  type SecondaryDeviceAttributes,
+  type TermcapFeature,
+  type TerminalFamily,
+  type TerminalModes,
+  type TerminalPalette,
+  type TerminfoCapabilities,
+  type TertiaryDeviceAttributes,
+  type TermFeature,
+} from "./utils/term-features.js";
+
+/**
+ * Color utilities for detected terminal colors: WCAG luminance and
+ * contrast, dark/light classification and nearest ANSI color.
+ */
+export {
+  colorSchemeFromColorFgBg,
+  contrastRatio,
+  DEFAULT_ANSI_PALETTE,
+  getColorScheme,
+  isDarkColor,
+  nearestAnsiColor,
+  parseHexColor,
+  relativeLuminance,
+  type ColorScheme,
+  type RgbColor,
+} from "./utils/colors.js";
@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Clipboard access through OSC 52.
+ *
+ * OSC 52 asks the terminal emulator to set (or report) the system
+ * clipboard. Because the terminal rather than the host running the
+ * application handles the request, copying works over SSH and inside
+ * containers. This module encodes OSC 52 writes and reads, with base64
+ * encoding, a size limit and multiplexer passthrough.
+ *
+ * @example
+ * ```typescript
+ * import { readClipboard, writeClipboard } from "tinky-termcap";
+ *
+ * writeClipboard(process.stdout, "Hello, clipboard!");
+ *
+ * const text = await readClipboard(process.stdin, process.stdout);
+ * console.log(text ?? "Clipboard reads are not allowed");
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { type ReadStream, type WriteStream } from "tinky";
+import { type Multiplexer, wrapForPassthrough } from "./multiplexer.js";
+import {
+  DEFAULT_RESPONSE_GRACE_PERIOD,
+  filterTerminalResponses,
+} from "./response-filter.js";
+
+/**
+ * Escape character constant used in ANSI escape sequences.
+ * @internal
+ */
+const ESC = "\x1b";
+
+/**
+ * Selection to access.
+ *
+ * - `"clipboard"` - the system clipboard (`c`)
+ * - `"primary"` - the X11 primary selection (`p`), where supported
+ */
+export type ClipboardSelection = "clipboard" | "primary";
+
+/**
+ * OSC 52 selection parameter per selection.
+ *
+ * @internal
+ */
+const SELECTION_CODES: Readonly<Record<ClipboardSelection, string>> = {
+  clipboard: "c",
+  primary: "p",
+};
+
+/**
+ * Default maximum size in bytes of text written to the clipboard, UTF-8
+ * encoded. Many terminals silently drop larger OSC 52 sequences.
+ */
+export const DEFAULT_CLIPBOARD_MAX_BYTES = 100_000;
+
+/**
+ * Default time in milliseconds to wait for the terminal to report the
+ * clipboard.
+ */
+export const DEFAULT_CLIPBOARD_READ_TIMEOUT = 1000;
+
+/**
+ * Options for {@link writeClipboard} and {@link readClipboard}.
+ */
+export interface ClipboardOptions {
+  /**
+   * Selection to access.
+   *
+   * @defaultValue "clipboard"
+   */
+  selection?: ClipboardSelection;
+
+  /**
+   * Multiplexer to pass the sequence through to the outer terminal (see
+   * `wrapForPassthrough`). tmux 3.3 and later need
+   * `set -g allow-passthrough on`.
+   */
+  multiplexer?: Multiplexer;
+}
+
+/**
+ * Options for {@link writeClipboard}.
+ */
+export interface ClipboardWriteOptions extends ClipboardOptions {
+  /**
+   * Maximum size in bytes of the UTF-8 encoded text. Larger text is not
+   * written.
+   *
+   * @defaultValue {@link DEFAULT_CLIPBOARD_MAX_BYTES}
+   */
+  maxBytes?: number;
+}
+
+/**
+ * Options for {@link readClipboard}.
+ */
+export interface ClipboardReadOptions extends ClipboardOptions {
+  /**
+   * Time in milliseconds to wait for the reply.
+   *
+   * @defaultValue {@link DEFAULT_CLIPBOARD_READ_TIMEOUT}
+   */
+  timeout?: number;
+}
+
+/**
+ * OSC 52 reply carrying the base64-encoded selection.
+ *
+ * @internal
+ */
+const CLIPBOARD_REPLY_REGEX = new RegExp(
+  `^${ESC}\\]52;[a-z0-9]*;([A-Za-z0-9+/=]*)(?:${ESC}\\\\|\\x07)$`,
+);
+
+/**
+ * Wrap `sequence` for the multiplexer, if any.
+ *
+ * @internal
+ */
+function wrap(sequence: string, multiplexer: Multiplexer | undefined) {
+  return multiplexer ? wrapForPassthrough(sequence, multiplexer) : sequence;
+}
+
+/**
+ * Copy text to the clipboard with OSC 52.
+ *
+ * The text is sent as `OSC 52 ; c ; <base64> ST`. Terminals give no
+ * acknowledgment, so a `true` result only means the sequence was written;
+ * check `TermcapInfo.clipboard` for support.
+ *
+ * @param stdout - Output stream connected to the terminal
+ * @param text - Text to copy
+ * @param options - Selection, size limit and multiplexer
+ * @returns `false` if nothing was written: no stream, the text exceeds
+ *   `maxBytes`, or the sequence cannot be passed through the multiplexer
+ *
+ * @example
+ * ```typescript
+ * writeClipboard(stdout, "npm install tinky-termcap");
+ * // Written: "\x1b]52;c;bnBtIGluc3RhbGwgdGlua3ktdGVybWNhcA==\x1b\\"
+ * ```
+ */
+export function writeClipboard(
+  stdout: WriteStream | undefined,
+  text: string,
+  options: ClipboardWriteOptions = {},
+): boolean {
+  const {
+    selection = "clipboard",
+    multiplexer,
+    maxBytes = DEFAULT_CLIPBOARD_MAX_BYTES,
+  } = options;
+
+  const data = Buffer.from(text, "utf8");
+  if (!stdout || data.length > maxBytes) {
+    return false;
+  }
+
+  const sequence = wrap(
+    `${ESC}]52;${SELECTION_CODES[selection]};${data.toString("base64")}${ESC}\\`,
+    multiplexer,
+  );
+  if (sequence === undefined) {
+    return false;
+  }
+  stdout.write(sequence);
+  return true;
+}
+
+/**
+ * Ask the terminal for the clipboard contents with `OSC 52 ; c ; ?`.
+ *
+ * Most terminals disable clipboard reads or ask the user for permission
+ * first, so expect `undefined` and treat a successful read as a bonus.
+ *
+ * @param stdin - Input stream the reply arrives on
+ * @param stdout - Output stream connected to the terminal
+ * @param options - Selection, timeout and multiplexer
+ * @returns The clipboard text, or `undefined` if the terminal did not
+ *   answer within the timeout
+ *
+ * @example
+ * ```typescript
+ * const text = await readClipboard(stdin, stdout, { timeout: 500 });
+ * if (text !== undefined) {
+ *   insert(text);
+ * }
+ * ```
+ */
+export function readClipboard(
+  stdin: ReadStream | undefined,
+  stdout: WriteStream | undefined,
+  options: ClipboardReadOptions = {},
+): Promise<string | undefined> {
+  const {
+    selection = "clipboard",
+    multiplexer,
+    timeout = DEFAULT_CLIPBOARD_READ_TIMEOUT,
+  } = options;
+
+  const query = wrap(
+    `${ESC}]52;${SELECTION_CODES[selection]};?${ESC}\\`,
+    multiplexer,
+  );
+  if (!stdin || !stdout || query === undefined) {
+    return Promise.resolve(undefined);
+  }
+
+  return new Promise((resolve) => {
+    const finish = (text: string | undefined) => {
+      clearTimeout(timeoutId);
+      release(DEFAULT_RESPONSE_GRACE_PERIOD);
+      resolve(text);
+    };
+
+    const release = filterTerminalResponses(stdin, (response) => {
+      const match = CLIPBOARD_REPLY_REGEX.exec(response);
+      if (match) {
+        finish(Buffer.from(match[1], "base64").toString("utf8"));
+      }
+    });
+    const timeoutId = setTimeout(() => finish(undefined), timeout);
+
+    stdout.write(query);
+  });
+}
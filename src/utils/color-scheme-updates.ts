@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Color scheme change notifications (DEC mode 2031).
+ *
+ * Terminals supporting private mode 2031 (Contour, kitty, Ghostty, foot and
+ * others) send `CSI ? 997 ; 1 n` when switching to a dark theme and
+ * `CSI ? 997 ; 2 n` when switching to a light one. This module enables the
+ * mode and turns the reports into callbacks.
+ *
+ * @example
+ * ```typescript
+ * import { watchColorScheme } from "tinky-termcap";
+ *
+ * const stop = watchColorScheme(process.stdin, process.stdout, (scheme) => {
+ *   console.log("Terminal switched to", scheme);
+ * });
+ *
+ * // Later: disable notifications
+ * stop();
+ * ```
+ *
+ * @see https://contour-terminal.org/vt-extensions/color-palette-update-notifications/
+ *
+ * @packageDocumentation
+ */
+
+import { type ReadStream, type WriteStream } from "tinky";
+import { filterTerminalResponses } from "./response-filter.js";
+import { restoreOnExit } from "./restore-on-exit.js";
+
+/**
+ * Escape character constant used in ANSI escape sequences.
+ * @internal
+ */
+const ESC = "\x1b";
+
+/**
+ * Sequence enabling color scheme change notifications.
+ */
+export const ENABLE_COLOR_SCHEME_UPDATES = `${ESC}[?2031h`;
+
+/**
+ * Sequence disabling color scheme change notifications.
+ */
+export const DISABLE_COLOR_SCHEME_UPDATES = `${ESC}[?2031l`;
+
+/**
+ * Pattern matching color scheme reports (`CSI ? 997 ; <n> n`).
+ * @internal
+ */
+const COLOR_SCHEME_REPORT_REGEX = new RegExp(`${ESC}\\[\\?997;([12])n`);
+
+/**
+ * Watch the terminal for color scheme changes.
+ *
+ * Enables DEC mode 2031 and calls `onChange` for every color scheme report
+ * read from `stdin`. The reports are removed from the input, so they do not
+ * reach the application's other `data` listeners. Only call this for
+ * terminals that support the mode (`TermcapInfo.colorSchemeUpdates`); other
+ * terminals never report.
+ *
+ * The mode is also disabled on process exit, `SIGINT`, `SIGTERM` and
+ * uncaught exceptions, so a crash does not leave the terminal sending
+ * reports to the shell.
+ *
+ * @param stdin - Input stream to read reports from. Raw mode must be
+ *   enabled by the caller.
+ * @param stdout - Output stream to write the mode sequences to
+ * @param onChange - Called with the new scheme on every report
+ * @returns Function that stops watching and disables the mode
+ *
+ * @example
+ * ```typescript
+ * const caps = await detectTermcap(process.stdin, process.stdout);
+ *
+ * if (caps.colorSchemeUpdates) {
+ *   watchColorScheme(process.stdin, process.stdout, async () => {
+ *     const { backgroundColor } = await queryFeatures(
+ *       process.stdin,
+ *       process.stdout,
+ *       500,
+ *       [Osc11Feature],
+ *     );
+ *     console.log("New background:", backgroundColor);
+ *   });
+ * }
+ * ```
+ */
+export function watchColorScheme(
+  stdin: ReadStream | undefined,
+  stdout: WriteStream | undefined,
+  onChange: (scheme: "dark" | "light") => void,
+): () => void {
+  const release = filterTerminalResponses(
+    stdin,
+    (response) => {
+      const match = COLOR_SCHEME_REPORT_REGEX.exec(response);
+      if (match) {
+        onChange(match[1] === "1" ? "dark" : "light");
+      }
+    },
+    [COLOR_SCHEME_REPORT_REGEX],
+  );
+  stdout?.write(ENABLE_COLOR_SCHEME_UPDATES);
+
+  return restoreOnExit(() => {
+    release();
+    stdout?.write(DISABLE_COLOR_SCHEME_UPDATES);
+  });
+}
@@ -0,0 +1,296 @@
+/**
+ * @fileoverview Color utilities for working with detected terminal colors.
+ *
+ * This module provides helpers for the `#rrggbb` colors reported in
+ * `TermcapInfo`: WCAG relative luminance and contrast ratio, dark/light
+ * classification, nearest ANSI palette entry and color scheme detection
+ * with a `COLORFGBG` fallback.
+ *
+ * @example Choosing readable text for the terminal background
+ * ```typescript
+ * import { contrastRatio, isDarkColor } from "tinky-termcap";
+ *
+ * const { backgroundColor = "#000000" } = caps;
+ * const text = isDarkColor(backgroundColor) ? "#ffffff" : "#000000";
+ *
+ * if (contrastRatio(text, backgroundColor) < 4.5) {
+ *   console.warn("Low contrast");
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Terminal color scheme.
+ *
+ * `"unknown"` is reported when neither the detected background color nor
+ * the `COLORFGBG` environment variable is available.
+ */
+export type ColorScheme = "dark" | "light" | "unknown";
+
+/**
+ * A color as red, green and blue components in the range 0-255.
+ */
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * The standard xterm colors for the 16 ANSI palette entries, used when no
+ * detected palette is available.
+ *
+ * @example
+ * ```typescript
+ * DEFAULT_ANSI_PALETTE[1]; // "#cd0000" (red)
+ * ```
+ */
+export const DEFAULT_ANSI_PALETTE: readonly string[] = [
+  "#000000",
+  "#cd0000",
+  "#00cd00",
+  "#cdcd00",
+  "#0000ee",
+  "#cd00cd",
+  "#00cdcd",
+  "#e5e5e5",
+  "#7f7f7f",
+  "#ff0000",
+  "#00ff00",
+  "#ffff00",
+  "#5c5cff",
+  "#ff00ff",
+  "#00ffff",
+  "#ffffff",
+];
+
+/**
+ * Luminance at which a color has equal contrast against black and white.
+ *
+ * Colors darker than this are more readable with white text.
+ *
+ * @internal
+ */
+const DARK_LUMINANCE_THRESHOLD = Math.sqrt(1.05 * 0.05) - 0.05;
+
+/**
+ * Parse a `#rrggbb` or `#rgb` color string.
+ *
+ * @param color - Hex color string, with or without the leading `#`
+ * @returns The color components, or `undefined` if `color` is not a valid
+ *   hex color
+ *
+ * @example
+ * ```typescript
+ * parseHexColor("#1a1a1a"); // { r: 26, g: 26, b: 26 }
+ * parseHexColor("#f00");    // { r: 255, g: 0, b: 0 }
+ * parseHexColor("red");     // undefined
+ * ```
+ */
+export function parseHexColor(color: string): RgbColor | undefined {
+  const hex = color.startsWith("#") ? color.slice(1) : color;
+
+  if (/^[0-9a-fA-F]{3}$/.test(hex)) {
+    const [r, g, b] = [...hex].map((digit) => parseInt(digit + digit, 16));
+    return { r, g, b };
+  }
+
+  if (/^[0-9a-fA-F]{6}$/.test(hex)) {
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a color argument to its components.
+ *
+ * @throws Error if `color` is a string that is not a valid hex color
+ *
+ * @internal
+ */
+function toRgb(color: string | RgbColor): RgbColor {
+  if (typeof color !== "string") {
+    return color;
+  }
+  const rgb = parseHexColor(color);
+  if (!rgb) {
+    throw new Error(`Invalid hex color: ${color}`);
+  }
+  return rgb;
+}
+
+/**
+ * Compute the WCAG 2 relative luminance of a color.
+ *
+ * @param color - `#rrggbb`/`#rgb` string or color components
+ * @returns Relative luminance from `0` (black) to `1` (white)
+ * @throws Error if `color` is a string that is not a valid hex color
+ *
+ * @example
+ * ```typescript
+ * relativeLuminance("#000000"); // 0
+ * relativeLuminance("#ffffff"); // 1
+ * ```
+ *
+ * @see https://www.w3.org/TR/WCAG21/#dfn-relative-luminance
+ */
+export function relativeLuminance(color: string | RgbColor): number {
+  const { r, g, b } = toRgb(color);
+  const linearize = (component: number) => {
+    const c = component / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linearize(r) + 0.7152 * linearize(g) + 0.0722 * linearize(b);
+}
+
+/**
+ * Compute the WCAG 2 contrast ratio between two colors.
+ *
+ * @param a - First color
+ * @param b - Second color
+ * @returns Contrast ratio from `1` (identical) to `21` (black on white).
+ *   The order of the arguments does not matter.
+ * @throws Error if either color is a string that is not a valid hex color
+ *
+ * @example
+ * ```typescript
+ * contrastRatio("#ffffff", "#000000"); // 21
+ * contrastRatio("#777777", "#ffffff") >= 4.5; // false - fails WCAG AA
+ * ```
+ *
+ * @see https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio
+ */
+export function contrastRatio(
+  a: string | RgbColor,
+  b: string | RgbColor,
+): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/**
+ * Check whether a color is dark, i.e. has better contrast against white
+ * than against black.
+ *
+ * @param color - Color to classify
+ * @returns `true` for dark colors
+ * @throws Error if `color` is a string that is not a valid hex color
+ *
+ * @example
+ * ```typescript
+ * isDarkColor("#1a1a1a"); // true
+ * isDarkColor("#fdf6e3"); // false
+ * ```
+ */
+export function isDarkColor(color: string | RgbColor): boolean {
+  return relativeLuminance(color) < DARK_LUMINANCE_THRESHOLD;
+}
+
+/**
+ * Find the ANSI palette entry closest to a color.
+ *
+ * @param color - Color to match
+ * @param palette - Palette to search, e.g. `palette.ansi` from
+ *   `TermcapInfo`. Entries that are `undefined` fall back to
+ *   {@link DEFAULT_ANSI_PALETTE}.
+ * @returns Index (0-15) of the closest palette entry
+ * @throws Error if `color` is a string that is not a valid hex color
+ *
+ * @example
+ * ```typescript
+ * nearestAnsiColor("#ff1010"); // 9 (bright red)
+ *
+ * const { palette } = useTermcap();
+ * nearestAnsiColor("#268bd2", palette?.ansi);
+ * ```
+ */
+export function nearestAnsiColor(
+  color: string | RgbColor,
+  palette: readonly (string | undefined)[] = DEFAULT_ANSI_PALETTE,
+): number {
+  const target = toRgb(color);
+  let nearest = 0;
+  let nearestDistance = Infinity;
+
+  DEFAULT_ANSI_PALETTE.forEach((fallback, index) => {
+    const entry = parseHexColor(palette[index] ?? fallback) ?? toRgb(fallback);
+    const distance =
+      (entry.r - target.r) ** 2 +
+      (entry.g - target.g) ** 2 +
+      (entry.b - target.b) ** 2;
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest;
+}
+
+/**
+ * Derive the color scheme from the `COLORFGBG` environment variable.
+ *
+ * `COLORFGBG` is set by rxvt, Konsole, iTerm2 and others to
+ * `"<fg>;<bg>"` (or `"<fg>;<extra>;<bg>"`), where the values are ANSI
+ * palette indices. Backgrounds 0-6 and 8 are dark; 7 and 9-15 are light.
+ *
+ * @param value - Value of `COLORFGBG`
+ * @returns The color scheme, or `"unknown"` if the value is missing or
+ *   cannot be interpreted
+ *
+ * @example
+ * ```typescript
+ * colorSchemeFromColorFgBg("15;0");  // "dark"
+ * colorSchemeFromColorFgBg("0;15");  // "light"
+ * colorSchemeFromColorFgBg("default;default"); // "unknown"
+ * ```
+ */
+export function colorSchemeFromColorFgBg(
+  value: string | undefined,
+): ColorScheme {
+  const background = value?.split(";").pop();
+  if (!background || !/^\d+$/.test(background)) {
+    return "unknown";
+  }
+
+  const index = parseInt(background, 10);
+  if (index > 15) {
+    return "unknown";
+  }
+  return index < 7 || index === 8 ? "dark" : "light";
+}
+
+/**
+ * Determine the terminal color scheme.
+ *
+ * Uses the detected background color when available, falling back to the
+ * `COLORFGBG` environment variable for terminals that do not answer OSC 11.
+ *
+ * @param backgroundColor - Detected background color (`TermcapInfo.backgroundColor`)
+ * @param env - Environment to read `COLORFGBG` from.
+ *   Defaults to `process.env`.
+ * @returns `"dark"`, `"light"` or `"unknown"`
+ *
+ * @example
+ * ```typescript
+ * const caps = await detectTermcap(process.stdin, process.stdout);
+ * const scheme = getColorScheme(caps.backgroundColor);
+ * ```
+ */
+export function getColorScheme(
+  backgroundColor: string | undefined,
+  env: Record<string, string | undefined> = process.env,
+): ColorScheme {
+  if (backgroundColor && parseHexColor(backgroundColor)) {
+    return isDarkColor(backgroundColor) ? "dark" : "light";
+  }
+  return colorSchemeFromColorFgBg(env.COLORFGBG);
+}
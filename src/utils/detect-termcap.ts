@@ -5,9 +5,12 @@
  * by sending escape sequence queries to the terminal and parsing responses.
  * It supports detection of:
  * - Background color (via OSC 11)
+ * - Foreground, cursor and ANSI palette colors (via OSC 10, 12 and 4)
  * - Terminal name/version (via XTVERSION)
  * - Kitty keyboard protocol support
  * - modifyOtherKeys mode support
+ * - Primary Device Attributes (conformance level, sixel, clipboard, ...)
+ * - Secondary and tertiary Device Attributes (terminal type, version, unit id)
  *
  * @example Basic usage with tinky
  * ```tsx
@@ -48,11 +51,43 @@
 
 import { ReadStream, WriteStream } from "tinky";
 import {
+  type CapabilitySource,
+  detectTermcapFromEnv,
+  getForcedColorDepth,
+} from "./env-termcap.js";
+import { type KittyKeyboardFlags } from "./kitty-keyboard.js";
+import {
+  getMultiplexer,
+  identifyMultiplexer,
+  type Multiplexer,
+  type TermcapLayer,
+  wrapForPassthrough,
+} from "./multiplexer.js";
+import {
+  DEFAULT_RESPONSE_GRACE_PERIOD,
+  filterTerminalResponses,
+} from "./response-filter.js";
+import { getRemoteSession, type RemoteSession } from "./remote-session.js";
+import {
+  readTerminfo,
+  type TerminfoEntry,
+  toTerminfoCapabilities,
+} from "./terminfo-database.js";
+import {
+  BUILTIN_FEATURES,
+  type ColorDepth,
   DeviceAttributesFeature,
-  KittyFeature,
-  ModifyOtherKeysFeature,
-  Osc11Feature,
-  TerminalNameFeature,
+  type DeviceAttributes,
+  EXTENDED_FEATURES,
+  type FeatureResults,
+  type GraphicsSupport,
+  type SecondaryDeviceAttributes,
+  type TermcapFeature,
+  createTerminfoFeatures,
+  type TerminalModes,
+  type TerminalPalette,
+  type TerminfoCapabilities,
+  type TertiaryDeviceAttributes,
 } from "./term-features.js";
 
 /**
@@ -112,19 +147,15 @@ export interface TermcapInfo {
    *
    * @example Adapting to light/dark themes
    * ```typescript
+   * import { isDarkColor } from "tinky-termcap";
+   *
    * function isDarkBackground(color: string | undefined): boolean {
    *   if (!color) return true; // Assume dark if unknown
-   *
-   *   const hex = color.slice(1);
-   *   const r = parseInt(hex.slice(0, 2), 16);
-   *   const g = parseInt(hex.slice(2, 4), 16);
-   *   const b = parseInt(hex.slice(4, 6), 16);
-   *
-   *   // Calculate relative luminance
-   *   const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-   *   return luminance < 0.5;
+   *   return isDarkColor(color);
    * }
    * ```
+   *
+   * @see {@link getColorScheme} for a classification with `COLORFGBG` fallback
    */
   backgroundColor: string | undefined;
 
@@ -138,18 +169,35 @@ export interface TermcapInfo {
    *
    * Will be `undefined` if the terminal doesn't respond to XTVERSION.
    *
-   * @example Terminal-specific feature flags
+   * @example Terminal-specific workarounds
    * ```typescript
-   * function supportsImageProtocol(terminalName: string | undefined): boolean {
-   *   if (!terminalName) return false;
-   *   return terminalName.includes("kitty") ||
-   *          terminalName.includes("WezTerm") ||
-   *          terminalName.includes("iTerm");
+   * function needsCursorWorkaround(terminalName: string | undefined): boolean {
+   *   return terminalName?.startsWith("xterm(") ?? false;
    * }
    * ```
    */
   terminalName: string | undefined;
 
+  /**
+   * Foreground, cursor and ANSI palette colors in `#rrggbb` format.
+   *
+   * Detected via OSC 10 (foreground), OSC 12 (cursor) and OSC 4 (palette
+   * entries 0-15). Will be `undefined` if the terminal answered none of
+   * these queries; individual entries are `undefined` when their query went
+   * unanswered. The background color is reported separately as
+   * `backgroundColor`.
+   *
+   * @example Choosing an accent color
+   * ```typescript
+   * const { palette } = useTermcap();
+   *
+   * const accent = palette?.ansi[6] ?? "#00ffff"; // cyan
+   * ```
+   *
+   * @see {@link TerminalPalette}
+   */
+  palette?: TerminalPalette;
+
   /**
    * Whether Kitty keyboard protocol is supported.
    *
@@ -162,21 +210,12 @@ export interface TermcapInfo {
    *
    * @example Enabling enhanced keyboard handling
    * ```typescript
-   * import { useTermcap } from "tinky-termcap";
-   *
-   * function useKeyboardMode() {
-   *   const { kittyProtocol } = useTermcap();
-   *
-   *   useEffect(() => {
-   *     if (kittyProtocol) {
-   *       // Enable Kitty keyboard protocol
-   *       process.stdout.write("\x1b[>1u");
-   *       return () => {
-   *         // Disable on cleanup
-   *         process.stdout.write("\x1b[<u");
-   *       };
-   *     }
-   *   }, [kittyProtocol]);
+   * import { useKittyKeyboard } from "tinky-termcap";
+   *
+   * function KeyboardMode() {
+   *   // Pushes the flags when kittyProtocol is true, pops them on unmount
+   *   useKittyKeyboard({ disambiguate: true });
+   *   return null;
    * }
    * ```
    *
@@ -184,6 +223,26 @@ export interface TermcapInfo {
    */
   kittyProtocol: boolean;
 
+  /**
+   * Kitty keyboard enhancement flags active when detection ran.
+   *
+   * Decoded from the `CSI ? flags u` response. Usually all `false` at
+   * startup, since applications push their own flags. Will be `undefined`
+   * if the terminal does not support the Kitty keyboard protocol.
+   *
+   * @example
+   * ```typescript
+   * const { kittyKeyboardFlags } = useTermcap();
+   *
+   * if (kittyKeyboardFlags?.reportEventTypes) {
+   *   console.log("Release events are already enabled");
+   * }
+   * ```
+   *
+   * @see {@link KITTY_KEYBOARD_FLAGS}
+   */
+  kittyKeyboardFlags?: KittyKeyboardFlags;
+
   /**
    * Whether modifyOtherKeys mode is supported at level 2 or higher.
    *
@@ -206,49 +265,366 @@ export interface TermcapInfo {
    * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html
    */
   modifyOtherKeys: boolean;
+
+  /**
+   * Current modifyOtherKeys level reported by the terminal.
+   *
+   * - `0` - disabled
+   * - `1` - modify keys that have no well-known behavior
+   * - `2` - modify all keys, including `Tab`, `Enter` and `Escape`
+   *
+   * `undefined` if the terminal did not answer the query, i.e. it does not
+   * support modifyOtherKeys or does not report its state.
+   *
+   * @example
+   * ```typescript
+   * const { modifyOtherKeysLevel } = useTermcap();
+   *
+   * if (modifyOtherKeysLevel === 0) {
+   *   console.log("modifyOtherKeys is supported but currently disabled");
+   * }
+   * ```
+   *
+   * @see {@link setModifyOtherKeys}
+   */
+  modifyOtherKeysLevel?: number;
+
+  /**
+   * Decoded Primary Device Attributes (DA1) response.
+   *
+   * Contains the terminal's conformance level and the attributes it
+   * advertises (sixel, ANSI color, rectangular editing, clipboard, ...).
+   * Will be `undefined` if the terminal did not answer the DA1 query
+   * before the timeout.
+   *
+   * @example Gating sixel output
+   * ```typescript
+   * const { deviceAttributes } = useTermcap();
+   *
+   * if (deviceAttributes?.attributes.includes("sixel")) {
+   *   renderSixelPreview();
+   * }
+   * ```
+   *
+   * @see {@link DeviceAttributes}
+   */
+  deviceAttributes?: DeviceAttributes;
+
+  /**
+   * Decoded Secondary Device Attributes (DA2) response.
+   *
+   * Reports the terminal type id, firmware version and a best-effort
+   * emulator `family` (xterm, VTE, screen, tmux, mintty). Most terminals
+   * answer DA2 even when they ignore XTVERSION, so this is the fallback for
+   * identifying the terminal when `terminalName` is `undefined`.
+   *
+   * @example
+   * ```typescript
+   * const { terminalName, secondaryDeviceAttributes } = useTermcap();
+   *
+   * if (!terminalName && secondaryDeviceAttributes?.family === "vte") {
+   *   console.log("VTE", secondaryDeviceAttributes.firmwareVersion);
+   * }
+   * ```
+   *
+   * @see {@link SecondaryDeviceAttributes}
+   */
+  secondaryDeviceAttributes?: SecondaryDeviceAttributes;
+
+  /**
+   * Decoded Tertiary Device Attributes (DA3) response, containing the
+   * terminal unit id. Will be `undefined` for the many terminals that do not
+   * answer DA3, and unless `TertiaryDeviceAttributesFeature` (part of
+   * `EXTENDED_FEATURES`) is queried.
+   *
+   * @see {@link TertiaryDeviceAttributes}
+   */
+  tertiaryDeviceAttributes?: TertiaryDeviceAttributes;
+
+  /**
+   * Whether the terminal can notify about color scheme changes.
+   *
+   * Detected via a DECRQM query for private mode 2031. When `true`,
+   * `TermcapProvider` enables the mode and re-queries the colors whenever
+   * the terminal reports a switch between dark and light themes.
+   *
+   * @see {@link watchColorScheme}
+   */
+  colorSchemeUpdates?: boolean;
+
+  /**
+   * DECRQM status of DEC private modes, keyed by mode number.
+   *
+   * Only the modes passed in `features` are probed: `EXTENDED_FEATURES`
+   * includes those in `PRIVATE_MODES` (synchronized output, bracketed
+   * paste, focus events, SGR and SGR-pixels mouse, grapheme clustering and
+   * the alternate screen), `createModeFeatures([...])` probes others. Will
+   * be `undefined` if the terminal answered no DECRQM query.
+   *
+   * @example
+   * ```typescript
+   * const { modes } = useTermcap();
+   *
+   * if (isModeSupported(modes?.[PRIVATE_MODES.bracketedPaste])) {
+   *   stdout.write("\x1b[?2004h");
+   * }
+   * ```
+   *
+   * @see {@link isModeSupported}
+   */
+  modes?: TerminalModes;
+
+  /**
+   * Terminfo capabilities reported by the terminal itself (XTGETTCAP),
+   * keyed by name.
+   *
+   * The names in `TERMINFO_CAPABILITIES` (`Tc`, `RGB`, `Smulx`, `Setulc`,
+   * `colors`, `Ms` and `Ss`) are queried with `EXTENDED_FEATURES`; use
+   * {@link queryTermcap} for others. Capabilities the terminal did not
+   * report are filled in from the local terminfo entry for `TERM` (see
+   * `readTerminfo`). Will be `undefined` if the terminal does not
+   * implement XTGETTCAP and there is no local entry.
+   *
+   * @example
+   * ```typescript
+   * const { terminfo } = useTermcap();
+   * const underlineColors = typeof terminfo?.Setulc === "string";
+   * ```
+   */
+  terminfo?: TerminfoCapabilities;
+
+  /**
+   * Where each detected value came from, keyed by field name.
+   *
+   * - `"query"` - the terminal answered the query, or left a support probe
+   *   such as `kittyProtocol` unanswered before replying to the sentinel,
+   *   which is a definite "no"
+   * - `"env"` - inferred from environment variables such as `TERM_PROGRAM`
+   *   or `KITTY_WINDOW_ID` because the terminal did not report the value,
+   *   detection timed out or stdin is not a TTY
+   * - `"terminfo"` - read from the local terminfo entry for `TERM`, used
+   *   when neither the terminal nor the environment told
+   * - `"default"` - no source was available
+   *
+   * Useful for debugging mis-detections. Custom features are included
+   * under their keys.
+   *
+   * @example
+   * ```typescript
+   * const caps = await detectTermcap(process.stdin, process.stdout);
+   * console.log(caps.sources);
+   * // { kittyProtocol: "env", terminalName: "query", backgroundColor: "default", ... }
+   * ```
+   */
+  sources?: Record<string, CapabilitySource>;
+
+  /**
+   * Report of the detection run, for bug reports.
+   *
+   * Only present when detection was run with `diagnostics: true` (or
+   * `TermcapProvider` with the `diagnostics` prop).
+   *
+   * @example
+   * ```typescript
+   * const caps = await detectTermcap({ stdin, stdout, diagnostics: true });
+   * console.log(JSON.stringify(caps.diagnostics, null, 2));
+   * ```
+   */
+  diagnostics?: TermcapDiagnostics;
+
+  /**
+   * Number of colors the terminal can display.
+   *
+   * Inferred from `COLORTERM`, known terminals and `TERM` suffixes
+   * (`-direct`, `-256color`, `dumb`), or from the `Tc`/`RGB` capabilities
+   * the terminal reports in `terminfo`. With `ColorDepthFeature` (part of
+   * `EXTENDED_FEATURES`), a DECRQSS round-trip sets a direct RGB color and
+   * reads it back, which tells truecolor terminals apart from ones that
+   * quantize to 256 or 16 colors. `NO_COLOR` and `FORCE_COLOR`
+   * always take precedence, as they express the user's preference.
+   *
+   * Will be `undefined` if no source is available (e.g. `TERM` is unset
+   * and the terminal does not answer).
+   *
+   * @example Choosing an output mode
+   * ```typescript
+   * const { colorDepth } = useTermcap();
+   *
+   * const accent =
+   *   colorDepth === "truecolor" ? "#ff8700" :
+   *   colorDepth === "256" ? "ansi256(208)" :
+   *   colorDepth === "16" ? "yellow" : undefined;
+   * ```
+   */
+  colorDepth?: ColorDepth;
+
+  /**
+   * Terminal multiplexer the application runs in, from the `TMUX` and
+   * `STY` variables or, e.g. over SSH, from the multiplexer's own XTVERSION
+   * and DA2 replies.
+   *
+   * Inside a multiplexer, queries are answered by it unless they are
+   * passed through to the outer terminal (see `QueryOptions.passthrough`);
+   * `layers` tells which one answered.
+   */
+  multiplexer?: Multiplexer;
+
+  /**
+   * Which layer answered each queried value, keyed by field name.
+   *
+   * Only contains fields whose source is `"query"`. Values are
+   * `"multiplexer"` when tmux or screen answered on behalf of the pane and
+   * `"terminal"` when the terminal emulator did.
+   *
+   * @example
+   * ```typescript
+   * const caps = await detectTermcap({ stdin, stdout, passthrough: true });
+   * if (caps.layers?.backgroundColor === "multiplexer") {
+   *   // tmux's idea of the background, not necessarily the terminal's
+   * }
+   * ```
+   */
+  layers?: Record<string, TermcapLayer>;
+
+  /**
+   * Whether the application runs over SSH, mosh or in a container,
+   * detected from environment variables and marker files.
+   *
+   * Remote sessions answer queries with network latency; consider
+   * `adaptiveTimeout` there.
+   *
+   * @see {@link getRemoteSession}
+   */
+  remoteSession?: RemoteSession;
+
+  /**
+   * Image protocols the terminal supports: sixel (from DA1) and iTerm2
+   * inline images (from the terminal identity). The Kitty graphics query
+   * and XTSMGRAPHICS (sixel color registers and maximum size) are only
+   * sent with `EXTENDED_FEATURES`.
+   *
+   * @example
+   * ```typescript
+   * const { graphics } = useTermcap();
+   * const protocol = graphics?.kitty ? "kitty" : graphics?.sixel ? "sixel" : "none";
+   * ```
+   *
+   * @see {@link GraphicsSupport}
+   */
+  graphics?: GraphicsSupport;
+
+  /**
+   * Whether the terminal accepts OSC 52 clipboard writes: announced in DA1
+   * (attribute `52`), reported in `terminfo` (`Ms`), known from the
+   * terminal identity or the local terminfo entry, or queried with
+   * XTGETTCAP when `ClipboardFeature` (part of `EXTENDED_FEATURES`) is
+   * passed in `features`.
+   *
+   * OSC 52 works over SSH, since the terminal rather than the remote host
+   * sets the clipboard. Reading the clipboard is often disabled even where
+   * writing works.
+   *
+   * @see `useClipboard` and `writeClipboard`
+   */
+  clipboard?: boolean;
 }
 
 /**
- * Parse RGB color from hex components to #rrggbb format.
+ * Escape character constant used in ANSI escape sequences.
+ * @internal
+ */
+const ESC = "\x1b";
+
+/**
+ * Latency probe sent first with `adaptiveTimeout`: Device Status Report.
+ *
+ * @internal
+ */
+const ROUND_TRIP_QUERY = `${ESC}[5n`;
+
+/**
+ * Reply to {@link ROUND_TRIP_QUERY}: "OK" (`0`) or "malfunction" (`3`).
  *
- * Terminal color responses use variable-length hex values (1-4 digits per
- * component). This function normalizes them to the standard `#rrggbb` format.
+ * @internal
+ */
+const ROUND_TRIP_REPLY_REGEX = new RegExp(`${ESC}\\[[03]n`);
+
+/**
+ * Round trips to wait for replies after the latency probe.
  *
- * @param rHex - Red component in hex (1-4 digits)
- * @param gHex - Green component in hex (1-4 digits)
- * @param bHex - Blue component in hex (1-4 digits)
- * @returns Normalized color string in `#rrggbb` format
+ * @internal
+ */
+const ADAPTIVE_TIMEOUT_ROUND_TRIPS = 4;
+
+/**
+ * Fixed time in milliseconds added to the adaptive wait, covering the
+ * terminal's processing time.
  *
- * @example
- * ```typescript
- * // 2-digit hex (most common)
- * parseColor("1a", "1a", "1a"); // "#1a1a1a"
+ * @internal
+ */
+const ADAPTIVE_TIMEOUT_MARGIN = 100;
+
+/**
+ * Terminals implementing the iTerm2 inline image protocol, by lowercased
+ * program name (the first word of `terminalName`).
  *
- * // 4-digit hex (some terminals)
- * parseColor("1a1a", "1a1a", "1a1a"); // "#1a1a1a"
+ * @internal
+ */
+const ITERM2_IMAGE_TERMINALS = new Set([
+  "iterm2",
+  "iterm.app",
+  "wezterm",
+  "mintty",
+  "konsole",
+  "rio",
+]);
+
+/**
+ * Terminals known to accept OSC 52 clipboard writes, by lowercased program
+ * name (the first word of `terminalName`).
  *
- * // 1-digit hex
- * parseColor("f", "0", "0"); // "#ff0000"
- * ```
+ * @internal
+ */
+const CLIPBOARD_TERMINALS = new Set([
+  "kitty",
+  "wezterm",
+  "foot",
+  "alacritty",
+  "ghostty",
+  "iterm2",
+  "iterm.app",
+  "contour",
+  "rio",
+  "mintty",
+]);
+
+/**
+ * Capabilities the local terminfo entry contributes to.
  *
  * @internal
  */
-function parseColor(rHex: string, gHex: string, bHex: string): string {
-  const parseComponent = (hex: string) => {
-    const val = parseInt(hex, 16);
-    if (hex.length === 1) return (val / 15) * 255;
-    if (hex.length === 2) return val;
-    if (hex.length === 3) return (val / 4095) * 255;
-    if (hex.length === 4) return (val / 65535) * 255;
-    return val;
-  };
+const TERMINFO_BACKED_KEYS = new Set(["terminfo", "clipboard"]);
 
-  const r = parseComponent(rHex);
-  const g = parseComponent(gHex);
-  const b = parseComponent(bHex);
+/**
+ * Local terminfo entries read so far, keyed by the `TERM`, `TERMINFO`,
+ * `TERMINFO_DIRS` and `HOME` values that locate them.
+ *
+ * @internal
+ */
+const terminfoEntries = new Map<string, TerminfoEntry | undefined>();
 
-  const toHex = (c: number) => Math.round(c).toString(16).padStart(2, "0");
-  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+/**
+ * Read the local terminfo entry for `TERM`, once per environment.
+ *
+ * @internal
+ */
+function readLocalTerminfo(): TerminfoEntry | undefined {
+  const { TERM, TERMINFO, TERMINFO_DIRS, HOME } = process.env;
+  const key = [TERM, TERMINFO, TERMINFO_DIRS, HOME].join("\0");
+  if (!terminfoEntries.has(key)) {
+    terminfoEntries.set(key, readTerminfo());
+  }
+  return terminfoEntries.get(key);
 }
 
 /**
@@ -271,19 +647,228 @@ function parseColor(rHex: string, gHex: string, bHex: string): string {
  */
 export const DEFAULT_DETECTION_TIMEOUT = 1000;
 
+/**
+ * A reply received during detection.
+ */
+export interface TermcapResponse {
+  /** The reply, exactly as received. */
+  data: string;
+  /** Arrival time in milliseconds after the queries were written. */
+  time: number;
+}
+
+/**
+ * Report of a detection run, returned as `TermcapInfo.diagnostics`.
+ *
+ * Contains everything needed to understand a mis-detection without access
+ * to the user's terminal. All fields are JSON-serializable.
+ */
+export interface TermcapDiagnostics {
+  /** Queries written to the terminal, exactly as sent. */
+  written: string;
+  /** Every reply received, in arrival order. */
+  responses: TermcapResponse[];
+  /** Keys of the features that received no reply. */
+  timedOut: string[];
+  /** Whether the sentinel reply arrived (always `false` without a sentinel). */
+  sentinelReceived: boolean;
+  /** Total detection time in milliseconds. */
+  elapsed: number;
+  /**
+   * Round-trip time of the latency probe in milliseconds, with
+   * `adaptiveTimeout` only.
+   */
+  roundTripTime?: number;
+}
+
+/**
+ * Options controlling how queries are sent and answered, accepted by
+ * {@link detectTermcap} and {@link queryFeatures}.
+ */
+export interface QueryOptions {
+  /**
+   * Signal that cancels detection.
+   *
+   * On abort, the stdin listener and timer are removed immediately and the
+   * returned promise rejects with `signal.reason`. If the signal is already
+   * aborted, no queries are sent.
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const pending = detectTermcap(stdin, stdout, 1000, [], {
+   *   signal: controller.signal,
+   * });
+   *
+   * controller.abort(); // pending rejects with an AbortError
+   * ```
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Maximum time in milliseconds to wait for each reply.
+   *
+   * Terminals answer queries in order, so detection finishes early when no
+   * reply has arrived for this long - after sending the queries or after
+   * the previous reply. Useful with `sentinel: false`, where detection
+   * would otherwise wait for the full `timeout` on terminals that ignore a
+   * query. By default only the overall timeout applies.
+   */
+  perFeatureTimeout?: number;
+
+  /**
+   * Feature queried last whose reply marks the end of detection.
+   *
+   * Defaults to {@link DeviceAttributesFeature}, which every terminal
+   * answers. Pass `false` to send no sentinel; detection then finishes when
+   * every feature has been answered, after `perFeatureTimeout` or after
+   * `timeout`. The sentinel's parsed value is included in the result
+   * under its `key`.
+   */
+  sentinel?: TermcapFeature | false;
+
+  /**
+   * Collect a {@link TermcapDiagnostics} report, returned as
+   * `diagnostics` by {@link detectTermcap}.
+   *
+   * @defaultValue false
+   */
+  diagnostics?: boolean;
+
+  /**
+   * Size the wait from the measured latency instead of a fixed timeout.
+   *
+   * A Device Status Report (`CSI 5 n`), which every terminal answers
+   * immediately, is sent first and its round-trip time measured. The
+   * queries are then sent and answers awaited for four round trips plus
+   * 100ms, regardless of `timeout`, which only bounds the wait for the
+   * probe itself. Detection finishes in a fraction of the default timeout
+   * locally and does not miss replies over slow SSH links. If the probe
+   * is not answered, no queries are sent.
+   *
+   * @defaultValue false
+   *
+   * @example
+   * ```typescript
+   * const caps = await detectTermcap({ stdin, stdout, adaptiveTimeout: true });
+   * caps.diagnostics?.roundTripTime; // e.g. 180 over SSH
+   * ```
+   */
+  adaptiveTimeout?: boolean;
+
+  /**
+   * Forward queries through tmux or GNU screen to the outer terminal.
+   *
+   * When `TMUX` or `STY` is set, each query is wrapped in the
+   * multiplexer's DCS passthrough, so the replies describe the terminal
+   * emulator rather than the multiplexer. tmux 3.3 and later only forward
+   * them with `set -g allow-passthrough on`; otherwise nothing answers and
+   * detection waits for the timeout. screen cannot forward DCS queries,
+   * which are sent to it unwrapped. Has no effect outside a multiplexer.
+   *
+   * @defaultValue false
+   *
+   * @see {@link wrapForPassthrough}
+   */
+  passthrough?: boolean;
+}
+
+/**
+ * Options for the options-object form of {@link detectTermcap}.
+ *
+ * @example Querying only the background color
+ * ```typescript
+ * const { backgroundColor } = await detectTermcap({
+ *   stdin: process.stdin,
+ *   stdout: process.stdout,
+ *   features: [Osc11Feature],
+ * });
+ * ```
+ */
+export interface DetectTermcapOptions<
+  F extends readonly TermcapFeature[] = readonly TermcapFeature[],
+> extends QueryOptions {
+  /** Input stream to read terminal responses from. */
+  stdin?: ReadStream;
+
+  /** Output stream to write queries to. */
+  stdout?: WriteStream;
+
+  /**
+   * Maximum time to wait for responses in milliseconds.
+   *
+   * @defaultValue {@link DEFAULT_DETECTION_TIMEOUT}
+   */
+  timeout?: number;
+
+  /**
+   * Features to query, replacing the built-in set.
+   *
+   * Capabilities whose features are not listed are not queried and take
+   * their environment or default values. The local terminfo database is
+   * only read when a `terminfo` or `clipboard` feature is listed. Defaults
+   * to {@link BUILTIN_FEATURES}.
+   */
+  features?: F;
+}
+
+/**
+ * Check whether the first argument of {@link detectTermcap} is an options
+ * object rather than an input stream.
+ *
+ * @internal
+ */
+function isDetectTermcapOptions(
+  value: ReadStream | DetectTermcapOptions | undefined,
+): value is DetectTermcapOptions {
+  return (
+    value !== undefined &&
+    typeof (value as ReadStream).on !== "function" &&
+    !("isTTY" in value)
+  );
+}
+
 /**
  * Detect terminal capabilities by querying the terminal.
  *
  * This function sends escape sequence queries to the terminal and parses
  * the responses to determine supported features. It detects:
  * - **Background color** - via OSC 11 query
+ * - **Palette** - foreground, cursor and ANSI colors via OSC 10/12/4
  * - **Terminal name** - via XTVERSION query
  * - **Kitty protocol** - enhanced keyboard support
  * - **modifyOtherKeys** - key disambiguation support
+ * - **Device attributes** - DA1 conformance level and attributes
+ * - **Terminal identity** - DA2 type id/version
+ *
+ * Each feature is a {@link TermcapFeature} carrying its own query, response
+ * parser and result key. The built-in features are listed in
+ * {@link BUILTIN_FEATURES}; custom features passed in `features` are queried
+ * after them and their values are added to the returned object. Probes
+ * that some terminals print literally, such as DA3, the DECRQSS SGR
+ * round-trip, the graphics queries, DECRQM for `PRIVATE_MODES` and
+ * XTGETTCAP, are only sent when passed in `features` (see
+ * {@link EXTENDED_FEATURES}).
+ *
+ * Values the terminal does not answer are filled in from environment
+ * variables (see {@link detectTermcapFromEnv}) where possible, and from the
+ * feature defaults otherwise. `sources` records which of the three each
+ * value came from.
  *
  * The function uses Device Attributes (DA) as a "sentinel" - when the DA
  * response is received, detection is considered complete since terminals
- * always respond to DA queries.
+ * always respond to DA queries. A different sentinel, or none, can be set
+ * with `options.sentinel`.
+ *
+ * To choose which features are queried instead of adding to the built-in
+ * ones, use the options-object form, `detectTermcap({ stdin, stdout,
+ * features })`.
+ *
+ * While detection runs, replies are separated from user input on `stdin`
+ * (see {@link filterTerminalResponses}): keys typed in the meantime still
+ * reach the application's `data` listeners, and replies do not. If
+ * detection times out, late replies keep being dropped for
+ * {@link DEFAULT_RESPONSE_GRACE_PERIOD} milliseconds.
  *
  * @param stdin - Input stream to read terminal responses from.
  *   If not provided or not a TTY, returns default values immediately.
@@ -291,7 +876,12 @@ export const DEFAULT_DETECTION_TIMEOUT = 1000;
  *   If not provided or not a TTY, returns default values immediately.
  * @param timeout - Maximum time to wait for responses in milliseconds.
  *   Defaults to {@link DEFAULT_DETECTION_TIMEOUT} (1000ms).
- * @returns Promise resolving to detected capabilities.
+ * @param features - Additional features to probe alongside the built-in
+ *   ones. Their parsed values are added to the result under each feature's
+ *   `key`, falling back to `defaultValue` when the terminal does not answer.
+ * @param options - Cancellation signal, per-feature timeout and sentinel.
+ * @returns Promise resolving to detected capabilities. Rejects with
+ *   `options.signal.reason` if detection is aborted.
  *
  * @remarks
  * - This function should typically only be called once at app startup
@@ -320,6 +910,24 @@ export const DEFAULT_DETECTION_TIMEOUT = 1000;
  * }
  * ```
  *
+ * @example With custom features
+ * ```typescript
+ * import { defineFeature, detectTermcap } from "tinky-termcap";
+ *
+ * const CursorStyleFeature = defineFeature({
+ *   key: "cursorStyle",
+ *   query: "\x1bP$q q\x1b\\",
+ *   responseRegex: /\x1bP1\$r(\d) q\x1b\\/,
+ *   defaultValue: undefined as number | undefined,
+ *   parse: (match) => parseInt(match[1], 10),
+ * });
+ *
+ * const caps = await detectTermcap(process.stdin, process.stdout, 1000, [
+ *   CursorStyleFeature,
+ * ]);
+ * console.log("Cursor style:", caps.cursorStyle ?? "unknown");
+ * ```
+ *
  * @example With tinky hooks
  * ```tsx
  * import { useStdin, useStdout } from "tinky";
@@ -364,113 +972,540 @@ export const DEFAULT_DETECTION_TIMEOUT = 1000;
  * const caps = await detectTermcap(mockStdin, mockStdout, 100);
  * ```
  */
-export async function detectTermcap(
+export function detectTermcap<F extends readonly TermcapFeature[] = []>(
   stdin?: ReadStream,
   stdout?: WriteStream,
   timeout?: number,
-): Promise<TermcapInfo> {
-  // Default result for non-TTY environments
-  const defaultResult: TermcapInfo = {
+  features?: F,
+  options?: QueryOptions,
+): Promise<TermcapInfo & FeatureResults<F>>;
+
+/**
+ * Detect terminal capabilities, choosing which features to query.
+ *
+ * Unlike the positional form, `features` replaces the built-in set, so
+ * only the listed probes are written to the terminal. This avoids sending
+ * queries that an application does not need and that some terminals print
+ * literally (e.g. the Kitty and modifyOtherKeys queries).
+ *
+ * @param options - Streams, timeouts, features and sentinel
+ * @returns Promise resolving to detected capabilities. Capabilities that
+ *   were not queried take their environment or default values.
+ *
+ * @example Only the background color, without a sentinel
+ * ```typescript
+ * const caps = await detectTermcap({
+ *   stdin: process.stdin,
+ *   stdout: process.stdout,
+ *   features: [Osc11Feature],
+ *   sentinel: false,
+ *   perFeatureTimeout: 200,
+ * });
+ * ```
+ */
+export function detectTermcap<F extends readonly TermcapFeature[] = []>(
+  options: DetectTermcapOptions<F>,
+): Promise<TermcapInfo & FeatureResults<F>>;
+
+export async function detectTermcap<F extends readonly TermcapFeature[] = []>(
+  stdinOrOptions?: ReadStream | DetectTermcapOptions<F>,
+  stdout?: WriteStream,
+  timeout?: number,
+  features?: F,
+  options: QueryOptions = {},
+): Promise<TermcapInfo & FeatureResults<F>> {
+  const {
+    stdin,
+    features: registry,
+    ...queryOptions
+  } = isDetectTermcapOptions(stdinOrOptions)
+    ? {
+        ...stdinOrOptions,
+        features: stdinOrOptions.features ?? BUILTIN_FEATURES,
+      }
+    : {
+        ...options,
+        stdin: stdinOrOptions,
+        stdout,
+        timeout,
+        features: [...BUILTIN_FEATURES, ...(features ?? [])],
+      };
+
+  const { values, answered, passedThrough, diagnostics } = await runQueries(
+    stdin,
+    queryOptions.stdout,
+    queryOptions.timeout,
+    registry,
+    queryOptions,
+  );
+
+  // Capabilities that were not queried still appear with their defaults
+  for (const feature of [...BUILTIN_FEATURES, ...EXTENDED_FEATURES]) {
+    if (!(feature.key in values)) {
+      values[feature.key] = feature.defaultValue;
+    }
+  }
+
+  const env: Record<string, unknown> = detectTermcapFromEnv();
+
+  // Query responses win over environment heuristics, which win over
+  // defaults. Once the sentinel has been answered, an unanswered support
+  // probe is the terminal's "no": inside tmux, KITTY_WINDOW_ID may still
+  // name the outer terminal although tmux answers the queries. Value
+  // queries such as XTVERSION or DECRQSS are often simply not implemented,
+  // so the environment still fills those in.
+  const probes = new Set(
+    registry
+      .filter((feature) => typeof feature.defaultValue === "boolean")
+      .map((feature) => feature.key),
+  );
+  const sources: Record<string, CapabilitySource> = {};
+  for (const key of Object.keys(values)) {
+    if (answered.has(key) && values[key] !== undefined) {
+      sources[key] = "query";
+    } else if (
+      !answered.has(key) &&
+      probes.has(key) &&
+      diagnostics.sentinelReceived
+    ) {
+      sources[key] = "query";
+    } else if (env[key] !== undefined) {
+      values[key] = env[key];
+      sources[key] = "env";
+    } else {
+      sources[key] = "default";
+    }
+  }
+
+  // The terminal's own terminfo knows about truecolor when DECRQSS did not
+  const terminfo = values.terminfo as TerminfoCapabilities | undefined;
+  if (
+    !(answered.has("colorDepth") && values.colorDepth !== undefined) &&
+    (terminfo?.Tc || terminfo?.RGB)
+  ) {
+    values.colorDepth = "truecolor";
+    sources.colorDepth = "query";
+  }
+
+  // The local terminfo entry for $TERM fills in unreported capabilities,
+  // unless the caller chose features that do not need it
+  const chosen = isDetectTermcapOptions(stdinOrOptions)
+    ? stdinOrOptions.features
+    : undefined;
+  const database =
+    !chosen || chosen.some((feature) => TERMINFO_BACKED_KEYS.has(feature.key))
+      ? readLocalTerminfo()
+      : undefined;
+  if (database) {
+    values.terminfo = { ...toTerminfoCapabilities(database), ...terminfo };
+    if (sources.terminfo === "default") {
+      sources.terminfo = "terminfo";
+    }
+  }
+
+  // NO_COLOR and FORCE_COLOR are user preferences and beat the terminal
+  const forcedColorDepth = getForcedColorDepth();
+  if (forcedColorDepth) {
+    values.colorDepth = forcedColorDepth;
+    sources.colorDepth = "env";
+  }
+
+  // A multiplexer on the far side of SSH only shows up in its own replies
+  const multiplexer =
+    (env.multiplexer as Multiplexer | undefined) ??
+    identifyMultiplexer({
+      terminalName: answered.has("terminalName")
+        ? (values.terminalName as string | undefined)
+        : undefined,
+      secondaryDeviceAttributes: answered.has("secondaryDeviceAttributes")
+        ? (values.secondaryDeviceAttributes as SecondaryDeviceAttributes)
+        : undefined,
+    });
+  values.multiplexer = multiplexer;
+  if (env.multiplexer) {
+    sources.multiplexer = "env";
+  } else {
+    sources.multiplexer = multiplexer ? "query" : "default";
+  }
+
+  values.remoteSession = getRemoteSession();
+  sources.remoteSession = values.remoteSession ? "env" : "default";
+
+  // Sixel is also announced in DA1; iTerm2 images can only be inferred
+  const graphics: GraphicsSupport = {
+    kitty: false,
+    sixel: false,
+    iterm2: false,
+    ...(values.graphics as GraphicsSupport | undefined),
+  };
+  if (
+    (
+      values.deviceAttributes as DeviceAttributes | undefined
+    )?.attributes.includes("sixel")
+  ) {
+    graphics.sixel = true;
+  }
+  const program = (values.terminalName as string | undefined)
+    ?.split(/[\s(]/)[0]
+    .toLowerCase();
+  if (
+    (program && ITERM2_IMAGE_TERMINALS.has(program)) ||
+    (values.secondaryDeviceAttributes as SecondaryDeviceAttributes | undefined)
+      ?.family === "mintty"
+  ) {
+    graphics.iterm2 = true;
+  }
+  values.graphics = graphics;
+  if (sources.graphics === "default" && (graphics.sixel || graphics.iterm2)) {
+    sources.graphics =
+      !graphics.sixel && sources.terminalName === "env" ? "env" : "query";
+  }
+
+  // OSC 52 is rarely queryable; DA1 and the terminal identity fill the gap
+  if (!values.clipboard) {
+    if (
+      (
+        values.deviceAttributes as DeviceAttributes | undefined
+      )?.attributes.includes("clipboard")
+    ) {
+      values.clipboard = true;
+      sources.clipboard = "query";
+    } else if (typeof terminfo?.Ms === "string") {
+      values.clipboard = true;
+      sources.clipboard = "query";
+    } else if (program && CLIPBOARD_TERMINALS.has(program)) {
+      values.clipboard = true;
+      sources.clipboard = sources.terminalName === "env" ? "env" : "query";
+    } else if (database?.strings.Ms !== undefined) {
+      values.clipboard = true;
+      sources.clipboard = "terminfo";
+    }
+  }
+
+  const layers: Record<string, TermcapLayer> = {};
+  for (const key of answered) {
+    if (sources[key] === "query") {
+      layers[key] =
+        multiplexer && !passedThrough.has(key) ? "multiplexer" : "terminal";
+    }
+  }
+
+  const info: Record<string, unknown> = {
+    ...values,
     isReady: true,
-    backgroundColor: undefined,
-    terminalName: undefined,
-    kittyProtocol: false,
-    modifyOtherKeys: false,
+    sources,
+    layers,
   };
+  if (queryOptions.diagnostics) {
+    info.diagnostics = diagnostics;
+  }
+  return info as TermcapInfo & FeatureResults<F>;
+}
+
+/**
+ * Query a set of features and collect their results.
+ *
+ * This is the detection loop behind {@link detectTermcap}, without the
+ * built-in features: only the given features are queried, followed by the
+ * Device Attributes sentinel. Use it to re-query a subset of capabilities
+ * after initial detection, e.g. the colors after a theme change.
+ *
+ * @param stdin - Input stream to read terminal responses from.
+ *   If not a TTY, returns default values immediately.
+ * @param stdout - Output stream to write queries to.
+ * @param timeout - Maximum time to wait for responses in milliseconds.
+ * @param features - Features to query, in order.
+ * @param options - Additional options, e.g. an `AbortSignal`.
+ * @returns Promise resolving to the parsed values keyed by feature key,
+ *   including `deviceAttributes` from the sentinel. Rejects with
+ *   `options.signal.reason` if the query is aborted.
+ *
+ * @example Re-querying the background color
+ * ```typescript
+ * import { Osc11Feature } from "tinky-termcap";
+ *
+ * const { backgroundColor } = await queryFeatures(stdin, stdout, 500, [
+ *   Osc11Feature,
+ * ]);
+ * ```
+ */
+export async function queryFeatures<F extends readonly TermcapFeature[]>(
+  stdin: ReadStream | undefined,
+  stdout: WriteStream | undefined,
+  timeout: number | undefined,
+  features: F,
+  options: QueryOptions = {},
+): Promise<FeatureResults<[...F, typeof DeviceAttributesFeature]>> {
+  const { values } = await runQueries(
+    stdin,
+    stdout,
+    timeout,
+    features,
+    options,
+  );
+  return values as FeatureResults<[...F, typeof DeviceAttributesFeature]>;
+}
+
+/**
+ * Query terminfo capabilities from the terminal itself with XTGETTCAP.
+ *
+ * Each name is hex-encoded and sent as `DCS + q <hex> ST`, followed by the
+ * Device Attributes sentinel. Replies are decoded into a
+ * {@link TerminfoCapabilities} map: values for string and numeric
+ * capabilities, `true` for boolean ones and `false` for names the
+ * terminal rejected as unknown or invalid. Names without a reply (e.g.
+ * on terminals without XTGETTCAP) are absent.
+ *
+ * @param stdin - Input stream to read terminal responses from.
+ *   If not a TTY, resolves to an empty map immediately.
+ * @param stdout - Output stream to write queries to.
+ * @param timeout - Maximum time to wait for responses in milliseconds.
+ * @param names - Terminfo capability names, e.g. `["Tc", "colors"]`.
+ * @param options - Additional options, e.g. an `AbortSignal`.
+ * @returns Promise resolving to the reported capabilities. Rejects with
+ *   `options.signal.reason` if the query is aborted.
+ *
+ * @example
+ * ```typescript
+ * const terminfo = await queryTermcap(stdin, stdout, 500, [
+ *   "colors",
+ *   "Smulx",
+ *   "bogus",
+ * ]);
+ * // { colors: "256", Smulx: "\x1b[4:%p1%dm", bogus: false }
+ * ```
+ */
+export async function queryTermcap(
+  stdin: ReadStream | undefined,
+  stdout: WriteStream | undefined,
+  timeout: number | undefined,
+  names: readonly string[],
+  options: QueryOptions = {},
+): Promise<TerminfoCapabilities> {
+  const { terminfo } = await queryFeatures(
+    stdin,
+    stdout,
+    timeout,
+    createTerminfoFeatures(names),
+    options,
+  );
+  return terminfo ?? {};
+}
+
+/**
+ * Values collected by {@link runQueries}.
+ *
+ * @internal
+ */
+interface QueryResults {
+  /** Parsed value (or default) for every feature key. */
+  values: Record<string, unknown>;
+  /** Keys for which at least one feature received a response. */
+  answered: Set<string>;
+  /** Keys whose queries were forwarded to the outer terminal. */
+  passedThrough: Set<string>;
+  /** Report of the run. */
+  diagnostics: TermcapDiagnostics;
+}
+
+/**
+ * Send the queries for `features` plus the sentinel and collect responses.
+ *
+ * @internal
+ */
+function runQueries(
+  stdin: ReadStream | undefined,
+  stdout: WriteStream | undefined,
+  timeout: number | undefined,
+  features: readonly TermcapFeature[],
+  {
+    signal,
+    perFeatureTimeout,
+    sentinel = DeviceAttributesFeature,
+    passthrough = false,
+    adaptiveTimeout = false,
+  }: QueryOptions,
+): Promise<QueryResults> {
+  // The sentinel is always queried last
+  const registry: readonly TermcapFeature[] = sentinel
+    ? [...features, sentinel]
+    : features;
+
+  // Wrapped queries, keyed by the original, when passing through
+  const multiplexer = passthrough ? getMultiplexer() : undefined;
+  const wrapped = new Map<string, string>();
+  const passedThrough = new Set<string>();
+  if (multiplexer) {
+    for (const feature of registry) {
+      const query = wrapForPassthrough(feature.query, multiplexer);
+      if (query) {
+        wrapped.set(feature.query, query);
+        passedThrough.add(feature.key);
+      }
+    }
+  }
+
+  // Every feature starts out at its default value
+  const values: Record<string, unknown> = {};
+  for (const feature of registry) {
+    values[feature.key] = feature.defaultValue;
+  }
+
+  const received = new Set<TermcapFeature>();
+  const responses: TermcapResponse[] = [];
+  let written = "";
+  let start = Date.now();
+  let roundTripTime: number | undefined;
+  const toResult = (): QueryResults => ({
+    values,
+    answered: new Set([...received].map((feature) => feature.key)),
+    passedThrough,
+    diagnostics: {
+      written,
+      responses,
+      timedOut: [
+        ...new Set(
+          registry
+            .filter((feature) => !received.has(feature))
+            .map((feature) => feature.key),
+        ),
+      ],
+      sentinelReceived: sentinel ? received.has(sentinel) : false,
+      elapsed: Date.now() - start,
+      ...(roundTripTime === undefined ? {} : { roundTripTime }),
+    },
+  });
 
   // Skip detection if not TTY
   if (stdin?.isTTY === false) {
-    return defaultResult;
+    return Promise.resolve(toResult());
+  }
+
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  if (registry.length === 0) {
+    return Promise.resolve(toResult());
   }
 
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     // Assumption: Caller handles raw mode (e.g. via Tinky useStdin)
 
     let buffer = "";
-    let backgroundColor: string | undefined;
-    let terminalName: string | undefined;
-    let kittyProtocol = false;
-    let modifyOtherKeys = false;
+    let idleTimeoutId: ReturnType<typeof setTimeout> | undefined;
 
-    let bgReceived = false;
-    let kittyReceived = false;
-    let terminalNameReceived = false;
-    let modifyOtherKeysReceived = false;
-    let deviceAttributesReceived = false;
+    const isComplete = () =>
+      sentinel
+        ? received.has(sentinel)
+        : registry.every((feature) => received.has(feature));
 
-    const cleanup = () => {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-      stdin?.off?.("data", onData);
-      resolve({
-        isReady: true,
-        backgroundColor,
-        terminalName,
-        kittyProtocol,
-        modifyOtherKeys,
-      });
+    const clearTimers = () => {
+      clearTimeout(timeoutId);
+      clearTimeout(idleTimeoutId);
+      signal?.removeEventListener("abort", onAbort);
     };
 
-    const timeoutId = setTimeout(cleanup, timeout);
+    const onAbort = () => {
+      clearTimers();
+      release();
+      reject(signal?.reason);
+    };
 
-    const onData = (data: unknown) => {
-      buffer += (data as Buffer).toString();
+    const cleanup = () => {
+      clearTimers();
+      // Replies may still be on their way when the terminal did not answer
+      // everything in time
+      release(isComplete() ? 0 : DEFAULT_RESPONSE_GRACE_PERIOD);
+      resolve(toResult());
+    };
 
-      // Check for background color (OSC 11 response)
-      if (!bgReceived) {
-        const match = buffer.match(Osc11Feature.responseRegex);
-        if (match) {
-          bgReceived = true;
-          backgroundColor = parseColor(match[1], match[2], match[3]);
-        }
+    // Terminals answer in order, so a long gap means the next feature
+    // will not be answered
+    const restartIdleTimer = () => {
+      if (perFeatureTimeout !== undefined) {
+        clearTimeout(idleTimeoutId);
+        idleTimeoutId = setTimeout(cleanup, perFeatureTimeout);
       }
+    };
+
+    let timeoutId = setTimeout(cleanup, timeout ?? DEFAULT_DETECTION_TIMEOUT);
 
-      // Check for Kitty keyboard protocol support
-      if (!kittyReceived && KittyFeature.responseRegex.test(buffer)) {
-        kittyReceived = true;
-        kittyProtocol = true;
+    const sendQueries = () => {
+      try {
+        // Features sharing a query (e.g. Kitty support and flags) send it once
+        const queries = [...new Set(registry.map((feature) => feature.query))]
+          .map((query) => wrapped.get(query) ?? query)
+          .join("");
+        written += queries;
+        stdout?.write(queries);
+      } catch {
+        cleanup();
       }
+    };
 
-      // Check for modifyOtherKeys support
-      if (!modifyOtherKeysReceived) {
-        const match = buffer.match(ModifyOtherKeysFeature.responseRegex);
-        if (match) {
-          modifyOtherKeysReceived = true;
-          const level = parseInt(match[1], 10);
-          modifyOtherKeys = level >= 2;
+    // With adaptiveTimeout, the queries wait for the latency probe
+    let probing = adaptiveTimeout;
+
+    const onResponse = (response: string) => {
+      responses.push({ data: response, time: Date.now() - start });
+      restartIdleTimer();
+
+      if (probing) {
+        if (ROUND_TRIP_REPLY_REGEX.test(response)) {
+          probing = false;
+          roundTripTime = Date.now() - start;
+          clearTimeout(timeoutId);
+          timeoutId = setTimeout(
+            cleanup,
+            roundTripTime * ADAPTIVE_TIMEOUT_ROUND_TRIPS +
+              ADAPTIVE_TIMEOUT_MARGIN,
+          );
+          sendQueries();
         }
+        return;
       }
+      buffer += response;
 
-      // Check for terminal name/version
-      if (!terminalNameReceived) {
-        const match = buffer.match(TerminalNameFeature.responseRegex);
+      // Each feature takes the first response matching its pattern
+      for (const feature of registry) {
+        if (received.has(feature)) {
+          continue;
+        }
+        const match = buffer.match(feature.responseRegex);
         if (match) {
-          terminalNameReceived = true;
-          terminalName = match[1];
+          received.add(feature);
+          values[feature.key] = feature.parse(match, values[feature.key]);
         }
       }
 
-      // Device Attributes response acts as sentinel - finish when received
-      if (!deviceAttributesReceived) {
-        const match = buffer.match(DeviceAttributesFeature.responseRegex);
-        if (match) {
-          deviceAttributesReceived = true;
-          cleanup();
-        }
+      // The sentinel response (or the last missing one without a
+      // sentinel) means every reply has arrived
+      if (isComplete()) {
+        cleanup();
       }
     };
 
-    stdin?.on?.("data", onData);
+    // Keys typed during detection are passed through to the application
+    const release = filterTerminalResponses(stdin, onResponse, [
+      ...registry.map((feature) => feature.responseRegex),
+      ...(adaptiveTimeout ? [ROUND_TRIP_REPLY_REGEX] : []),
+    ]);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    restartIdleTimer();
 
+    start = Date.now();
+    if (!adaptiveTimeout) {
+      sendQueries();
+      return;
+    }
     try {
-      stdout?.write(
-        KittyFeature.query +
-          Osc11Feature.query +
-          TerminalNameFeature.query +
-          ModifyOtherKeysFeature.query +
-          DeviceAttributesFeature.query,
-      );
+      const probe = multiplexer
+        ? (wrapForPassthrough(ROUND_TRIP_QUERY, multiplexer) ??
+          ROUND_TRIP_QUERY)
+        : ROUND_TRIP_QUERY;
+      written = probe;
+      stdout?.write(probe);
     } catch {
       cleanup();
     }
@@ -480,9 +1515,9 @@ export async function detectTermcap(
 /**
  * Reset module state for testing purposes.
  *
- * This function is provided for test isolation. In the current implementation,
- * there is no module-level state to reset, but this function is maintained
- * for API compatibility.
+ * This function is provided for test isolation. It forgets the local
+ * terminfo entries read so far, so changes to the terminfo database are
+ * picked up.
  *
  * @example
  * ```typescript
@@ -496,5 +1531,5 @@ export async function detectTermcap(
  * @internal
  */
 export function resetForTesting(): void {
-  // No module-level state to reset in the new design
+  terminfoEntries.clear();
 }
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Environment-variable heuristics for terminal capabilities.
+ *
+ * Terminal emulators export variables such as `TERM_PROGRAM`,
+ * `KITTY_WINDOW_ID` or `VTE_VERSION` that identify them without any
+ * round-trip to the terminal. This module turns those variables into a
+ * provisional `TermcapInfo`, which `detectTermcap` merges with the query
+ * responses (responses take precedence). It is the only source of
+ * information when stdin is not a TTY or the terminal does not answer.
+ *
+ * @example
+ * ```typescript
+ * import { detectTermcapFromEnv } from "tinky-termcap";
+ *
+ * const provisional = detectTermcapFromEnv({ TERM: "xterm-kitty" });
+ * // { terminalName: "kitty", kittyProtocol: true }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { type TermcapInfo } from "./detect-termcap.js";
+import { getMultiplexer } from "./multiplexer.js";
+import { type ColorDepth } from "./term-features.js";
+
+/**
+ * Source of a detected capability value.
+ *
+ * - `"query"` - answered by the terminal
+ * - `"env"` - inferred from environment variables
+ * - `"terminfo"` - read from the local terminfo database, below `"query"`
+ * - `"default"` - no source was available
+ */
+export type CapabilitySource = "query" | "env" | "terminfo" | "default";
+
+/**
+ * Environment variables consulted by {@link detectTermcapFromEnv}, the
+ * terminfo database lookup and `getRemoteSession`.
+ *
+ * @example Isolating tests from the developer's terminal
+ * ```typescript
+ * for (const name of TERMCAP_ENV_VARIABLES) {
+ *   delete process.env[name];
+ * }
+ * ```
+ */
+export const TERMCAP_ENV_VARIABLES = [
+  "TERM",
+  "TERM_PROGRAM",
+  "TERM_PROGRAM_VERSION",
+  "COLORTERM",
+  "NO_COLOR",
+  "FORCE_COLOR",
+  "KITTY_WINDOW_ID",
+  "WEZTERM_EXECUTABLE",
+  "VTE_VERSION",
+  "TMUX",
+  "STY",
+  "TERMINFO",
+  "TERMINFO_DIRS",
+  "MOSH_SERVER_PID",
+  "SSH_TTY",
+  "SSH_CONNECTION",
+  "SSH_CLIENT",
+  "container",
+] as const;
+
+/**
+ * Terminal names for `TERM` values that identify a single emulator.
+ *
+ * Generic values such as `xterm-256color` are shared by many emulators and
+ * are deliberately not listed.
+ *
+ * @internal
+ */
+const TERM_NAMES: Readonly<Record<string, string>> = {
+  "xterm-kitty": "kitty",
+  "xterm-ghostty": "ghostty",
+  foot: "foot",
+  "foot-extra": "foot",
+  alacritty: "Alacritty",
+  wezterm: "WezTerm",
+  contour: "contour",
+  rio: "rio",
+};
+
+/**
+ * Terminals that always support the Kitty keyboard protocol, by the
+ * lowercased name returned from {@link detectTermcapFromEnv}.
+ *
+ * @internal
+ */
+const KITTY_PROTOCOL_TERMINALS = new Set(["kitty", "ghostty", "foot"]);
+
+/**
+ * Terminal names known to support truecolor regardless of `TERM`.
+ *
+ * @internal
+ */
+const TRUECOLOR_TERMINALS = new Set([
+  "kitty",
+  "ghostty",
+  "foot",
+  "alacritty",
+  "wezterm",
+  "contour",
+  "rio",
+  "iterm.app",
+  "vscode",
+]);
+
+/**
+ * Color depth explicitly requested by the user via `NO_COLOR` or
+ * `FORCE_COLOR`.
+ *
+ * These variables express a preference rather than a capability, so
+ * `detectTermcap` applies them on top of the query results.
+ *
+ * - `NO_COLOR` set to any non-empty value yields `"none"`
+ * - `FORCE_COLOR` follows the chalk/supports-color convention: `0` or
+ *   `false` is `"none"`, `1`, `true` or empty is `"16"`, `2` is `"256"` and
+ *   `3` is `"truecolor"`
+ *
+ * @param env - Environment to read. Defaults to `process.env`.
+ * @returns The requested color depth, or `undefined` if neither variable
+ *   is set
+ *
+ * @example
+ * ```typescript
+ * getForcedColorDepth({ NO_COLOR: "1" }); // "none"
+ * getForcedColorDepth({ FORCE_COLOR: "3" }); // "truecolor"
+ * getForcedColorDepth({}); // undefined
+ * ```
+ *
+ * @see https://no-color.org/
+ */
+export function getForcedColorDepth(
+  env: Record<string, string | undefined> = process.env,
+): ColorDepth | undefined {
+  if (env.NO_COLOR) {
+    return "none";
+  }
+
+  switch (env.FORCE_COLOR) {
+    case undefined:
+      return undefined;
+    case "0":
+    case "false":
+      return "none";
+    case "2":
+      return "256";
+    case "3":
+      return "truecolor";
+    default:
+      return "16";
+  }
+}
+
+/**
+ * Infer the color depth from `COLORTERM`, `TERM` and the terminal name.
+ *
+ * @internal
+ */
+function detectColorDepth(
+  env: Record<string, string | undefined>,
+  terminalName: string | undefined,
+): ColorDepth | undefined {
+  const forced = getForcedColorDepth(env);
+  if (forced) {
+    return forced;
+  }
+
+  if (env.COLORTERM === "truecolor" || env.COLORTERM === "24bit") {
+    return "truecolor";
+  }
+
+  const program = terminalName?.split(" ")[0].toLowerCase();
+  if (program && TRUECOLOR_TERMINALS.has(program)) {
+    return "truecolor";
+  }
+
+  const term = env.TERM;
+  if (!term) {
+    return undefined;
+  }
+  if (term === "dumb") {
+    return "none";
+  }
+  if (term.endsWith("-direct") || term.endsWith("-truecolor")) {
+    return "truecolor";
+  }
+  if (term.endsWith("-256color") || term.endsWith("-256")) {
+    return "256";
+  }
+  return "16";
+}
+
+/**
+ * Infer terminal capabilities from environment variables.
+ *
+ * Only fields that the environment says something about are present in
+ * the result; everything else is left to the terminal queries and
+ * defaults.
+ *
+ * Rules, in order of precedence:
+ * - `terminalName` from `TERM_PROGRAM` (+ `TERM_PROGRAM_VERSION`), then
+ *   `KITTY_WINDOW_ID`, `WEZTERM_EXECUTABLE`, `VTE_VERSION` and finally
+ *   emulator-specific `TERM` values such as `xterm-kitty` or `foot`
+ * - `kittyProtocol` is `true` for kitty, Ghostty and foot
+ * - `colorDepth` from `NO_COLOR`/`FORCE_COLOR`, then `COLORTERM`, then
+ *   known truecolor terminals, then `TERM` suffixes (`-direct`,
+ *   `-256color`) - any other `TERM` except `dumb` is assumed to support the
+ *   16 ANSI colors
+ * - `multiplexer` from `TMUX` (tmux) and `STY` (GNU screen)
+ *
+ * @param env - Environment to read. Defaults to `process.env`.
+ * @returns Provisional capabilities inferred from the environment
+ *
+ * @example
+ * ```typescript
+ * detectTermcapFromEnv({
+ *   TERM_PROGRAM: "WezTerm",
+ *   TERM_PROGRAM_VERSION: "20240203-110809-5046fc22",
+ * });
+ * // { terminalName: "WezTerm 20240203-110809-5046fc22" }
+ * ```
+ */
+export function detectTermcapFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): Partial<TermcapInfo> {
+  const info: Partial<TermcapInfo> = {};
+
+  let terminalName: string | undefined;
+  if (env.TERM_PROGRAM) {
+    terminalName = env.TERM_PROGRAM_VERSION
+      ? `${env.TERM_PROGRAM} ${env.TERM_PROGRAM_VERSION}`
+      : env.TERM_PROGRAM;
+  } else if (env.KITTY_WINDOW_ID) {
+    terminalName = "kitty";
+  } else if (env.WEZTERM_EXECUTABLE) {
+    terminalName = "WezTerm";
+  } else if (env.VTE_VERSION) {
+    terminalName = `VTE ${env.VTE_VERSION}`;
+  } else if (env.TERM) {
+    terminalName = TERM_NAMES[env.TERM];
+  }
+
+  if (terminalName) {
+    info.terminalName = terminalName;
+    const program = terminalName.split(" ")[0].toLowerCase();
+    if (KITTY_PROTOCOL_TERMINALS.has(program)) {
+      info.kittyProtocol = true;
+    }
+  }
+
+  const colorDepth = detectColorDepth(env, terminalName);
+  if (colorDepth) {
+    info.colorDepth = colorDepth;
+  }
+
+  const multiplexer = getMultiplexer(env);
+  if (multiplexer) {
+    info.multiplexer = multiplexer;
+  }
+
+  return info;
+}
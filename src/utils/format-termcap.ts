@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Plain-text formatting of detection results.
+ *
+ * Renders a `TermcapInfo` as an aligned table and a `TermcapDiagnostics`
+ * report as readable text, for the `tinky-termcap` CLI and for apps that
+ * want to show detection results in a debug screen or bug report.
+ *
+ * @example
+ * ```typescript
+ * import { detectTermcap, formatTermcap } from "tinky-termcap";
+ *
+ * const caps = await detectTermcap(process.stdin, process.stdout);
+ * console.log(formatTermcap(caps));
+ * // Capability       Value    Source
+ * // backgroundColor  #1a1a1a  query
+ * // ...
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { type TermcapDiagnostics, type TermcapInfo } from "./detect-termcap.js";
+
+/**
+ * `TermcapInfo` fields that describe the detection run rather than a
+ * capability.
+ *
+ * @internal
+ */
+const META_KEYS = new Set(["isReady", "sources", "layers", "diagnostics"]);
+
+/**
+ * Render a single value for a table cell.
+ *
+ * @internal
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return "-";
+  }
+  if (typeof value === "object" && value !== null) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Format detected capabilities as an aligned plain-text table.
+ *
+ * One row per capability with its value and, when available, the source it
+ * came from (see `TermcapInfo.sources`). Values answered by a multiplexer
+ * rather than the terminal are marked with its name, e.g. `query (tmux)`.
+ * Objects such as `palette` are rendered as JSON; missing values as `-`.
+ *
+ * @param info - Detected capabilities
+ * @returns The table, without a trailing newline
+ *
+ * @example
+ * ```typescript
+ * formatTermcap({
+ *   isReady: true,
+ *   backgroundColor: "#000000",
+ *   terminalName: undefined,
+ *   kittyProtocol: false,
+ *   modifyOtherKeys: false,
+ * });
+ * // Capability       Value
+ * // backgroundColor  #000000
+ * // terminalName     -
+ * // kittyProtocol    false
+ * // modifyOtherKeys  false
+ * ```
+ */
+export function formatTermcap(info: TermcapInfo): string {
+  const { sources, layers, multiplexer } = info;
+  const header = sources
+    ? ["Capability", "Value", "Source"]
+    : ["Capability", "Value"];
+
+  const rows = Object.entries(info)
+    .filter(([key]) => !META_KEYS.has(key))
+    .map(([key, value]) => {
+      const row = [key, formatValue(value)];
+      if (sources) {
+        const source = sources[key] ?? "-";
+        row.push(
+          layers?.[key] === "multiplexer"
+            ? `${source} (${multiplexer ?? "multiplexer"})`
+            : source,
+        );
+      }
+      return row;
+    });
+
+  const table = [header, ...rows];
+  const widths = header.map((_, column) =>
+    Math.max(...table.map((row) => row[column].length)),
+  );
+
+  return table
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          column === row.length - 1 ? cell : cell.padEnd(widths[column]),
+        )
+        .join("  "),
+    )
+    .join("\n");
+}
+
+/**
+ * Format a detection report as plain text.
+ *
+ * Queries and replies are shown as JSON strings, so control characters are
+ * visible (`\u001b` for `ESC`).
+ *
+ * @param diagnostics - Report from `TermcapInfo.diagnostics`
+ * @returns The report, without a trailing newline
+ *
+ * @example
+ * ```typescript
+ * const caps = await detectTermcap({ stdin, stdout, diagnostics: true });
+ * if (caps.diagnostics) {
+ *   console.log(formatDiagnostics(caps.diagnostics));
+ * }
+ * // Written: "\u001b[?u\u001b]11;?\u001b\\..."
+ * // Responses:
+ * //   +12ms "\u001b[?1u"
+ * // ...
+ * ```
+ */
+export function formatDiagnostics(diagnostics: TermcapDiagnostics): string {
+  const lines = [`Written: ${JSON.stringify(diagnostics.written)}`];
+
+  lines.push(diagnostics.responses.length > 0 ? "Responses:" : "Responses: -");
+  for (const response of diagnostics.responses) {
+    lines.push(`  +${response.time}ms ${JSON.stringify(response.data)}`);
+  }
+
+  if (diagnostics.roundTripTime !== undefined) {
+    lines.push(`Round trip: ${diagnostics.roundTripTime}ms`);
+  }
+  lines.push(
+    `Timed out: ${diagnostics.timedOut.join(", ") || "-"}`,
+    `Sentinel received: ${diagnostics.sentinelReceived ? "yes" : "no"}`,
+    `Elapsed: ${diagnostics.elapsed}ms`,
+  );
+  return lines.join("\n");
+}
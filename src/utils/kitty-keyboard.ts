@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Kitty keyboard protocol flags and enhancement management.
+ *
+ * The Kitty keyboard protocol is controlled by a set of progressive
+ * enhancement flags. Applications push the flags they want onto the
+ * terminal's flag stack with `CSI > flags u` and pop them with `CSI < u`
+ * when done. This module encodes and decodes the flags and pushes/pops
+ * them with a guaranteed pop on process exit.
+ *
+ * @example
+ * ```typescript
+ * import { enableKittyKeyboard } from "tinky-termcap";
+ *
+ * const disable = enableKittyKeyboard(process.stdout, {
+ *   disambiguate: true,
+ *   reportEventTypes: true,
+ * });
+ *
+ * // ... read enhanced key events ...
+ *
+ * disable();
+ * ```
+ *
+ * @see https://sw.kovidgoyal.net/kitty/keyboard-protocol/#progressive-enhancement
+ *
+ * @packageDocumentation
+ */
+
+import { type WriteStream } from "tinky";
+import { restoreOnExit } from "./restore-on-exit.js";
+
+/**
+ * Escape character constant used in ANSI escape sequences.
+ * @internal
+ */
+const ESC = "\x1b";
+
+/**
+ * Bit values of the Kitty keyboard protocol enhancement flags.
+ *
+ * @example
+ * ```typescript
+ * const flags =
+ *   KITTY_KEYBOARD_FLAGS.disambiguate | KITTY_KEYBOARD_FLAGS.reportEventTypes;
+ * // 3
+ * ```
+ */
+export const KITTY_KEYBOARD_FLAGS = {
+  /** Disambiguate escape codes (e.g. `Esc` vs `Alt+[`, `Ctrl+I` vs `Tab`). */
+  disambiguate: 1,
+  /** Report key repeat and release events. */
+  reportEventTypes: 2,
+  /** Report shifted and base-layout keys. */
+  reportAlternateKeys: 4,
+  /** Report all keys, including text keys, as escape codes. */
+  reportAllKeysAsEscapes: 8,
+  /** Report the text generated by a key along with the key code. */
+  reportAssociatedText: 16,
+} as const;
+
+/**
+ * Decoded Kitty keyboard protocol enhancement flags.
+ *
+ * @see {@link KITTY_KEYBOARD_FLAGS} for the meaning of each flag
+ */
+export type KittyKeyboardFlags = Record<
+  keyof typeof KITTY_KEYBOARD_FLAGS,
+  boolean
+>;
+
+/**
+ * Decode a Kitty keyboard flags number.
+ *
+ * @param flags - Flags as reported in `CSI ? flags u`
+ * @returns The decoded flags
+ *
+ * @example
+ * ```typescript
+ * decodeKittyKeyboardFlags(3);
+ * // { disambiguate: true, reportEventTypes: true, reportAlternateKeys: false,
+ * //   reportAllKeysAsEscapes: false, reportAssociatedText: false }
+ * ```
+ */
+export function decodeKittyKeyboardFlags(flags: number): KittyKeyboardFlags {
+  const decoded = {} as KittyKeyboardFlags;
+  for (const [name, bit] of Object.entries(KITTY_KEYBOARD_FLAGS)) {
+    decoded[name as keyof KittyKeyboardFlags] = (flags & bit) !== 0;
+  }
+  return decoded;
+}
+
+/**
+ * Encode Kitty keyboard flags into the number sent in `CSI > flags u`.
+ *
+ * @param flags - Flags to enable; omitted flags are disabled. Numbers are
+ *   returned unchanged.
+ * @returns The flags number
+ *
+ * @example
+ * ```typescript
+ * encodeKittyKeyboardFlags({ disambiguate: true, reportAlternateKeys: true });
+ * // 5
+ * ```
+ */
+export function encodeKittyKeyboardFlags(
+  flags: Partial<KittyKeyboardFlags> | number,
+): number {
+  if (typeof flags === "number") {
+    return flags;
+  }
+  let encoded = 0;
+  for (const [name, bit] of Object.entries(KITTY_KEYBOARD_FLAGS)) {
+    if (flags[name as keyof KittyKeyboardFlags]) {
+      encoded |= bit;
+    }
+  }
+  return encoded;
+}
+
+/**
+ * Push Kitty keyboard enhancement flags onto the terminal's flag stack.
+ *
+ * Writes `CSI > flags u` and returns a function that pops the flags again
+ * with `CSI < u`. The pop also happens automatically on process exit,
+ * `SIGINT`, `SIGTERM` and uncaught exceptions, so the user's shell is not
+ * left with enhanced key reporting.
+ * Calling the returned function more than once has no further effect.
+ *
+ * Only call this when the terminal supports the protocol
+ * (`TermcapInfo.kittyProtocol`).
+ *
+ * @param stdout - Output stream to write the sequences to
+ * @param flags - Flags to push
+ * @returns Function that pops the pushed flags
+ *
+ * @example
+ * ```typescript
+ * const caps = await detectTermcap(process.stdin, process.stdout);
+ *
+ * if (caps.kittyProtocol) {
+ *   const disable = enableKittyKeyboard(process.stdout, { disambiguate: true });
+ *   // ... read enhanced key events ...
+ *   disable();
+ * }
+ * ```
+ */
+export function enableKittyKeyboard(
+  stdout: WriteStream | undefined,
+  flags: Partial<KittyKeyboardFlags> | number,
+): () => void {
+  stdout?.write(`${ESC}[>${encodeKittyKeyboardFlags(flags)}u`);
+  return restoreOnExit(() => {
+    stdout?.write(`${ESC}[<u`);
+  });
+}
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Managed modifyOtherKeys mode.
+ *
+ * xterm's modifyOtherKeys resource makes the terminal report modified keys
+ * (e.g. `Ctrl+I`) as distinct escape sequences. It is set with
+ * `CSI > 4 ; level m`. This module sets a level and restores the previous
+ * one when done, including on process exit, `SIGINT`, `SIGTERM` and
+ * uncaught exceptions.
+ *
+ * @example
+ * ```typescript
+ * import { detectTermcap, setModifyOtherKeys } from "tinky-termcap";
+ *
+ * const caps = await detectTermcap(process.stdin, process.stdout);
+ *
+ * if (caps.modifyOtherKeysLevel !== undefined) {
+ *   const restore = setModifyOtherKeys(
+ *     process.stdout,
+ *     2,
+ *     caps.modifyOtherKeysLevel,
+ *   );
+ *   // ... read disambiguated keys ...
+ *   restore();
+ * }
+ * ```
+ *
+ * @see https://invisible-island.net/xterm/manpage/xterm.html#VT100-Widget-Resources:modifyOtherKeys
+ *
+ * @packageDocumentation
+ */
+
+import { type WriteStream } from "tinky";
+import { restoreOnExit } from "./restore-on-exit.js";
+
+/**
+ * Escape character constant used in ANSI escape sequences.
+ * @internal
+ */
+const ESC = "\x1b";
+
+/**
+ * Set the modifyOtherKeys level.
+ *
+ * Writes `CSI > 4 ; level m` and returns a function that writes the
+ * previous level back. The previous level is also restored automatically on
+ * process exit, `SIGINT`, `SIGTERM` and uncaught exceptions. Calling the
+ * returned function more than once has no further effect.
+ *
+ * @param stdout - Output stream to write the sequences to
+ * @param level - Level to set: `0`, `1` or `2`
+ * @param previousLevel - Level to restore, usually
+ *   `TermcapInfo.modifyOtherKeysLevel`. Defaults to `0`.
+ * @returns Function that restores the previous level
+ *
+ * @example
+ * ```typescript
+ * const restore = setModifyOtherKeys(process.stdout, 2);
+ * ```
+ */
+export function setModifyOtherKeys(
+  stdout: WriteStream | undefined,
+  level: number,
+  previousLevel = 0,
+): () => void {
+  stdout?.write(`${ESC}[>4;${level}m`);
+  return restoreOnExit(() => {
+    stdout?.write(`${ESC}[>4;${previousLevel}m`);
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Terminal multiplexer detection and query passthrough.
+ *
+ * Inside tmux or GNU screen, queries are answered by the multiplexer rather
+ * than the terminal emulator the user is looking at, so values such as
+ * `backgroundColor` or `terminalName` describe the multiplexer. Both
+ * multiplexers can forward a DCS-wrapped sequence to the outer terminal
+ * unchanged; this module detects the multiplexer and wraps queries so that
+ * the outer terminal answers them.
+ *
+ * @example
+ * ```typescript
+ * import { getMultiplexer, wrapForPassthrough } from "tinky-termcap";
+ *
+ * const multiplexer = getMultiplexer(); // "tmux" inside tmux
+ * if (multiplexer) {
+ *   stdout.write(wrapForPassthrough("\x1b]11;?\x1b\\", multiplexer) ?? "");
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { type SecondaryDeviceAttributes } from "./term-features.js";
+
+/**
+ * Escape character constant used in ANSI escape sequences.
+ * @internal
+ */
+const ESC = "\x1b";
+
+/**
+ * Supported terminal multiplexers.
+ */
+export type Multiplexer = "tmux" | "screen";
+
+/**
+ * Which layer of the terminal stack answered a query.
+ *
+ * - `"terminal"` - the terminal emulator, directly or through a
+ *   multiplexer's passthrough
+ * - `"multiplexer"` - tmux or screen, on behalf of the pane
+ */
+export type TermcapLayer = "terminal" | "multiplexer";
+
+/**
+ * Detect the multiplexer from the variables it exports to its panes:
+ * `TMUX` for tmux and `STY` for GNU screen.
+ *
+ * These variables are not forwarded over SSH, so a multiplexer on the
+ * local machine is only recognised from its query replies (see
+ * {@link identifyMultiplexer}).
+ *
+ * @param env - Environment to read. Defaults to `process.env`.
+ * @returns The multiplexer, or `undefined` outside tmux and screen
+ *
+ * @example
+ * ```typescript
+ * getMultiplexer({ TMUX: "/tmp/tmux-1000/default,1234,0" }); // "tmux"
+ * getMultiplexer({ STY: "1234.pts-0.host" }); // "screen"
+ * ```
+ */
+export function getMultiplexer(
+  env: Record<string, string | undefined> = process.env,
+): Multiplexer | undefined {
+  if (env.TMUX) {
+    return "tmux";
+  }
+  if (env.STY) {
+    return "screen";
+  }
+  return undefined;
+}
+
+/**
+ * Recognise a multiplexer from its own query replies.
+ *
+ * tmux reports itself in XTVERSION (`tmux 3.4`) and both multiplexers use
+ * dedicated DA2 type ids (`84` for tmux, `83` for screen).
+ *
+ * @param replies - Values answered by the multiplexer
+ * @returns The multiplexer, or `undefined` if the replies came from a
+ *   terminal emulator
+ *
+ * @example
+ * ```typescript
+ * identifyMultiplexer({ terminalName: "tmux 3.4" }); // "tmux"
+ * ```
+ */
+export function identifyMultiplexer(replies: {
+  terminalName?: string;
+  secondaryDeviceAttributes?: SecondaryDeviceAttributes;
+}): Multiplexer | undefined {
+  if (replies.terminalName && /^tmux\b/i.test(replies.terminalName)) {
+    return "tmux";
+  }
+  const family = replies.secondaryDeviceAttributes?.family;
+  return family === "tmux" || family === "screen" ? family : undefined;
+}
+
+/**
+ * Wrap a query so the multiplexer forwards it to the outer terminal.
+ *
+ * - tmux: `ESC P tmux; <query with ESC doubled> ESC \`. Requires
+ *   `set -g allow-passthrough on` in tmux 3.3 and later.
+ * - screen: `ESC P <query> ESC \`. screen ends the passthrough at the
+ *   first string terminator, so OSC queries are sent with a `BEL`
+ *   terminator and DCS queries cannot be wrapped.
+ *
+ * @param query - Query to forward
+ * @param multiplexer - Multiplexer the application runs in
+ * @returns The wrapped query, or `undefined` if it cannot be forwarded
+ *
+ * @example
+ * ```typescript
+ * wrapForPassthrough("\x1b[c", "tmux"); // "\x1bPtmux;\x1b\x1b[c\x1b\\"
+ * ```
+ */
+export function wrapForPassthrough(
+  query: string,
+  multiplexer: Multiplexer,
+): string | undefined {
+  if (multiplexer === "tmux") {
+    return `${ESC}Ptmux;${query.replaceAll(ESC, ESC + ESC)}${ESC}\\`;
+  }
+  if (query.includes(`${ESC}P`)) {
+    return undefined;
+  }
+  return `${ESC}P${query.replaceAll(`${ESC}\\`, "\x07")}${ESC}\\`;
+}
@@ -0,0 +1,543 @@
+/**
+ * @fileoverview Keyboard input decoder.
+ *
+ * Turns raw stdin data into structured key events. Three encodings are
+ * understood, so the same decoder works whichever keyboard mode the
+ * terminal is in:
+ *
+ * - Kitty keyboard protocol: `CSI code[:shifted[:base]] ; mods[:event] ; text u`
+ *   and the functional-key forms `CSI 1 ; mods[:event] A` / `CSI n ; mods[:event] ~`
+ * - xterm modifyOtherKeys: `CSI 27 ; mods ; code ~`
+ * - Legacy sequences: plain text, control characters, `ESC`-prefixed Alt
+ *   keys and the usual cursor and function key sequences
+ *
+ * Terminal responses that may arrive on stdin (OSC, DCS and APC strings,
+ * and CSI sequences with private `?`, `>` or `<` prefixes) are skipped.
+ *
+ * @example
+ * ```typescript
+ * import { parseKeys } from "tinky-termcap";
+ *
+ * parseKeys("\x1b[105;5u");
+ * // [{ key: "i", modifiers: { ctrl: true, ... }, eventType: "press", ... }]
+ * ```
+ *
+ * @see https://sw.kovidgoyal.net/kitty/keyboard-protocol/
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Escape character constant used in ANSI escape sequences.
+ * @internal
+ */
+const ESC = "\x1b";
+
+/**
+ * Kind of key event.
+ *
+ * Legacy and modifyOtherKeys input only produce `"press"`; `"repeat"` and
+ * `"release"` require the Kitty `reportEventTypes` flag.
+ */
+export type KeyEventType = "press" | "repeat" | "release";
+
+/**
+ * Modifier keys held during a key event.
+ */
+export interface KeyModifiers {
+  shift: boolean;
+  alt: boolean;
+  ctrl: boolean;
+  super: boolean;
+  hyper: boolean;
+  meta: boolean;
+  capsLock: boolean;
+  numLock: boolean;
+}
+
+/**
+ * A decoded key event.
+ */
+export interface KeyEvent {
+  /**
+   * The key, as the character it produces without modifiers (`"a"`, `"1"`,
+   * `" "`) or the name of a functional key.
+   *
+   * Functional key names follow tinky's `Key` object where it has one:
+   * `"return"`, `"escape"`, `"tab"`, `"backspace"`, `"delete"`,
+   * `"upArrow"`, `"downArrow"`, `"leftArrow"`, `"rightArrow"`, `"home"`,
+   * `"end"`, `"pageUp"`, `"pageDown"`, plus `"insert"`, `"f1"` to `"f35"`
+   * and the Kitty-only keys such as `"capsLock"`, `"kp5"` or `"leftShift"`.
+   */
+  key: string;
+
+  /**
+   * Character the key produces with Shift, when reported by the terminal
+   * (Kitty `reportAlternateKeys` flag).
+   */
+  shiftedKey?: string;
+
+  /**
+   * Key at the same position on a standard US PC-101 layout, when reported
+   * by the terminal and different from `key` (Kitty `reportAlternateKeys`
+   * flag). Useful for layout-independent shortcuts.
+   */
+  baseLayoutKey?: string;
+
+  /** Modifier keys held during the event. */
+  modifiers: KeyModifiers;
+
+  /** Whether the key was pressed, auto-repeated or released. */
+  eventType: KeyEventType;
+
+  /**
+   * Text produced by the key, if any.
+   *
+   * Reported by the terminal with the Kitty `reportAssociatedText` flag,
+   * otherwise derived from printable keys pressed without Ctrl, Alt or
+   * Super.
+   */
+  text?: string;
+
+  /** The raw input sequence the event was decoded from. */
+  sequence: string;
+}
+
+/**
+ * Modifier bits, as encoded in `mods - 1` by the Kitty protocol and xterm.
+ *
+ * @internal
+ */
+const MODIFIER_BITS: Readonly<Record<keyof KeyModifiers, number>> = {
+  shift: 1,
+  alt: 2,
+  ctrl: 4,
+  super: 8,
+  hyper: 16,
+  meta: 32,
+  capsLock: 64,
+  numLock: 128,
+};
+
+/**
+ * Names of keys reported by their Unicode code point.
+ *
+ * @internal
+ */
+const CODE_POINT_KEYS: Readonly<Record<number, string>> = {
+  9: "tab",
+  13: "return",
+  27: "escape",
+  127: "backspace",
+  57358: "capsLock",
+  57359: "scrollLock",
+  57360: "numLock",
+  57361: "printScreen",
+  57362: "pause",
+  57363: "menu",
+  57409: "kpDecimal",
+  57410: "kpDivide",
+  57411: "kpMultiply",
+  57412: "kpSubtract",
+  57413: "kpAdd",
+  57414: "kpEnter",
+  57415: "kpEqual",
+  57416: "kpSeparator",
+  57417: "kpLeft",
+  57418: "kpRight",
+  57419: "kpUp",
+  57420: "kpDown",
+  57421: "kpPageUp",
+  57422: "kpPageDown",
+  57423: "kpHome",
+  57424: "kpEnd",
+  57425: "kpInsert",
+  57426: "kpDelete",
+  57427: "kpBegin",
+  57428: "mediaPlay",
+  57429: "mediaPause",
+  57430: "mediaPlayPause",
+  57431: "mediaReverse",
+  57432: "mediaStop",
+  57433: "mediaFastForward",
+  57434: "mediaRewind",
+  57435: "mediaTrackNext",
+  57436: "mediaTrackPrevious",
+  57437: "mediaRecord",
+  57438: "lowerVolume",
+  57439: "raiseVolume",
+  57440: "muteVolume",
+  57441: "leftShift",
+  57442: "leftControl",
+  57443: "leftAlt",
+  57444: "leftSuper",
+  57445: "leftHyper",
+  57446: "leftMeta",
+  57447: "rightShift",
+  57448: "rightControl",
+  57449: "rightAlt",
+  57450: "rightSuper",
+  57451: "rightHyper",
+  57452: "rightMeta",
+  57453: "isoLevel3Shift",
+  57454: "isoLevel5Shift",
+};
+
+/**
+ * Names of keys reported as `CSI number ~`.
+ *
+ * @internal
+ */
+const TILDE_KEYS: Readonly<Record<number, string>> = {
+  1: "home",
+  2: "insert",
+  3: "delete",
+  4: "end",
+  5: "pageUp",
+  6: "pageDown",
+  7: "home",
+  8: "end",
+  11: "f1",
+  12: "f2",
+  13: "f3",
+  14: "f4",
+  15: "f5",
+  17: "f6",
+  18: "f7",
+  19: "f8",
+  20: "f9",
+  21: "f10",
+  23: "f11",
+  24: "f12",
+  29: "menu",
+  57427: "kpBegin",
+};
+
+/**
+ * Names of keys reported as `CSI [1 ; mods] letter` or `SS3 letter`.
+ *
+ * @internal
+ */
+const LETTER_KEYS: Readonly<Record<string, string>> = {
+  A: "upArrow",
+  B: "downArrow",
+  C: "rightArrow",
+  D: "leftArrow",
+  E: "kpBegin",
+  F: "end",
+  H: "home",
+  P: "f1",
+  Q: "f2",
+  R: "f3",
+  S: "f4",
+};
+
+/**
+ * Matches a CSI sequence: parameters, intermediates and final byte.
+ *
+ * @internal
+ */
+const CSI_REGEX = new RegExp(`^${ESC}\\[([0-9:;<=>?]*)([ -/]*)([@-~])`);
+
+/**
+ * Matches an SS3 sequence.
+ *
+ * @internal
+ */
+const SS3_REGEX = new RegExp(`^${ESC}O([A-Za-z])`);
+
+/**
+ * Matches an OSC, DCS or APC string terminated by BEL or ST.
+ *
+ * @internal
+ */
+const STRING_REGEX = new RegExp(`^${ESC}[\\]P_][\\s\\S]*?(?:\\x07|${ESC}\\\\)`);
+
+/**
+ * Decode a modifier parameter (`1 + bitmask`).
+ *
+ * @internal
+ */
+function decodeModifiers(value: number): KeyModifiers {
+  const bits = Math.max(value - 1, 0);
+  const modifiers = {} as KeyModifiers;
+  for (const [name, bit] of Object.entries(MODIFIER_BITS)) {
+    modifiers[name as keyof KeyModifiers] = (bits & bit) !== 0;
+  }
+  return modifiers;
+}
+
+/**
+ * Map a key code to a key name or character.
+ *
+ * @internal
+ */
+function keyFromCodePoint(code: number): string {
+  if (CODE_POINT_KEYS[code]) {
+    return CODE_POINT_KEYS[code];
+  }
+  if (code >= 57376 && code <= 57398) {
+    return `f${code - 57376 + 13}`;
+  }
+  if (code >= 57399 && code <= 57408) {
+    return `kp${code - 57399}`;
+  }
+  return String.fromCodePoint(code);
+}
+
+/**
+ * Decode an event type parameter.
+ *
+ * @internal
+ */
+function decodeEventType(value: string | undefined): KeyEventType {
+  switch (value) {
+    case "2":
+      return "repeat";
+    case "3":
+      return "release";
+    default:
+      return "press";
+  }
+}
+
+/**
+ * Check whether a key is a single printable character.
+ *
+ * @internal
+ */
+function isPrintable(key: string): boolean {
+  return [...key].length === 1 && key >= " " && key !== "\x7f";
+}
+
+/**
+ * Build a key event, deriving `text` for printable keys.
+ *
+ * @internal
+ */
+function createEvent(
+  sequence: string,
+  key: string,
+  modifiers: KeyModifiers,
+  eventType: KeyEventType = "press",
+  extra: Pick<KeyEvent, "shiftedKey" | "baseLayoutKey" | "text"> = {},
+): KeyEvent {
+  const event: KeyEvent = { key, modifiers, eventType, sequence };
+  if (extra.shiftedKey !== undefined) {
+    event.shiftedKey = extra.shiftedKey;
+  }
+  if (extra.baseLayoutKey !== undefined) {
+    event.baseLayoutKey = extra.baseLayoutKey;
+  }
+
+  if (extra.text !== undefined) {
+    event.text = extra.text;
+  } else if (
+    eventType !== "release" &&
+    isPrintable(key) &&
+    !modifiers.ctrl &&
+    !modifiers.alt &&
+    !modifiers.super
+  ) {
+    event.text =
+      modifiers.shift && event.shiftedKey !== undefined
+        ? event.shiftedKey
+        : key;
+  }
+  return event;
+}
+
+/**
+ * Decode a CSI sequence, or return `undefined` for sequences that are not
+ * key events.
+ *
+ * @internal
+ */
+function parseCsi(
+  sequence: string,
+  params: string,
+  final: string,
+): KeyEvent | undefined {
+  if (/^[<=>?]/.test(params)) {
+    return undefined;
+  }
+  const fields = params.split(";");
+  const [modifierValue, eventValue] = (fields[1] ?? "").split(":");
+  const modifiers = decodeModifiers(parseInt(modifierValue, 10) || 1);
+  const eventType = decodeEventType(eventValue);
+
+  if (final === "u") {
+    const [code, shifted, base] = fields[0]
+      .split(":")
+      .map((value) => (value ? parseInt(value, 10) : undefined));
+    if (code === undefined) {
+      return undefined;
+    }
+    const text = fields[2]
+      ? String.fromCodePoint(
+          ...fields[2].split(":").map((value) => parseInt(value, 10)),
+        )
+      : undefined;
+    return createEvent(sequence, keyFromCodePoint(code), modifiers, eventType, {
+      shiftedKey:
+        shifted !== undefined ? String.fromCodePoint(shifted) : undefined,
+      baseLayoutKey:
+        base !== undefined && base !== code
+          ? keyFromCodePoint(base)
+          : undefined,
+      text,
+    });
+  }
+
+  if (final === "~") {
+    const number = parseInt(fields[0], 10);
+    // modifyOtherKeys: CSI 27 ; mods ; code ~
+    if (number === 27 && fields[2]) {
+      return createEvent(
+        sequence,
+        keyFromCodePoint(parseInt(fields[2], 10)),
+        modifiers,
+      );
+    }
+    const key = TILDE_KEYS[number];
+    return key ? createEvent(sequence, key, modifiers, eventType) : undefined;
+  }
+
+  if (final === "Z") {
+    return createEvent(sequence, "tab", { ...modifiers, shift: true });
+  }
+
+  // CSI row ; col R is a cursor position report; F3 is only CSI 1 ; mods R
+  if (final === "R" && fields[0] !== "1") {
+    return undefined;
+  }
+
+  const key = LETTER_KEYS[final];
+  return key ? createEvent(sequence, key, modifiers, eventType) : undefined;
+}
+
+/**
+ * Decode a single character of legacy input.
+ *
+ * @internal
+ */
+function parseCharacter(
+  sequence: string,
+  character: string,
+  alt = false,
+): KeyEvent {
+  const modifiers = { ...decodeModifiers(1), alt };
+  const code = character.codePointAt(0) ?? 0;
+
+  switch (character) {
+    case "\r":
+    case "\n":
+      return createEvent(sequence, "return", modifiers);
+    case "\t":
+      return createEvent(sequence, "tab", modifiers);
+    case "\x7f":
+    case "\b":
+      return createEvent(sequence, "backspace", modifiers);
+    case ESC:
+      return createEvent(sequence, "escape", modifiers);
+    case "\x00":
+      return createEvent(sequence, " ", { ...modifiers, ctrl: true });
+  }
+
+  if (code < 0x20) {
+    // Ctrl+A..Ctrl+Z and Ctrl+\ ] ^ _
+    const key =
+      code <= 26
+        ? String.fromCharCode(code + 96)
+        : String.fromCharCode(code + 64);
+    return createEvent(sequence, key, { ...modifiers, ctrl: true });
+  }
+
+  if (character !== character.toLowerCase()) {
+    return createEvent(
+      sequence,
+      character.toLowerCase(),
+      { ...modifiers, shift: true },
+      "press",
+      { shiftedKey: character },
+    );
+  }
+  return createEvent(sequence, character, modifiers);
+}
+
+/**
+ * Decode raw terminal input into key events.
+ *
+ * Each call is independent: sequences split across two `data` chunks are
+ * not reassembled, matching how tinky's own input handling works. A lone
+ * `ESC` at the end of the input is reported as the Escape key.
+ *
+ * @param data - Raw stdin data
+ * @returns The decoded key events, in input order. Sequences that are not
+ *   key events (e.g. terminal query responses) produce no event.
+ *
+ * @example Kitty keyboard protocol
+ * ```typescript
+ * const [event] = parseKeys("\x1b[97:65;2:3u");
+ * event.key;        // "a"
+ * event.shiftedKey; // "A"
+ * event.modifiers.shift; // true
+ * event.eventType;  // "release"
+ * ```
+ *
+ * @example modifyOtherKeys
+ * ```typescript
+ * const [event] = parseKeys("\x1b[27;5;9~");
+ * event.key;            // "tab"
+ * event.modifiers.ctrl; // true
+ * ```
+ */
+export function parseKeys(data: string): KeyEvent[] {
+  const events: KeyEvent[] = [];
+  let rest = data;
+
+  while (rest.length > 0) {
+    if (rest.startsWith(ESC) && rest.length > 1) {
+      const csi = rest.match(CSI_REGEX);
+      if (csi) {
+        const event = parseCsi(csi[0], csi[1], csi[3]);
+        if (event && !csi[2]) {
+          events.push(event);
+        }
+        rest = rest.slice(csi[0].length);
+        continue;
+      }
+
+      const ss3 = rest.match(SS3_REGEX);
+      if (ss3) {
+        const key = LETTER_KEYS[ss3[1]];
+        if (key) {
+          events.push(createEvent(ss3[0], key, decodeModifiers(1)));
+        }
+        rest = rest.slice(ss3[0].length);
+        continue;
+      }
+
+      const string = rest.match(STRING_REGEX);
+      if (string) {
+        rest = rest.slice(string[0].length);
+        continue;
+      }
+
+      // ESC followed by a key is the legacy encoding of Alt+key
+      const [character] = rest.slice(1);
+      if (character !== ESC) {
+        const sequence = ESC + character;
+        events.push(parseCharacter(sequence, character, true));
+        rest = rest.slice(sequence.length);
+        continue;
+      }
+    }
+
+    const [character] = rest;
+    events.push(parseCharacter(character, character));
+    rest = rest.slice(character.length);
+  }
+
+  return events;
+}
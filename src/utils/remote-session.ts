@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Detection of remote and containerized sessions.
+ *
+ * Over SSH or mosh, every query travels across the network, so replies can
+ * take far longer than on a local terminal. Inside a container, the
+ * environment usually comes from the image rather than the user's
+ * terminal, which makes environment heuristics less reliable. This module
+ * recognises these sessions from the variables and marker files their
+ * tools leave behind.
+ *
+ * @example
+ * ```typescript
+ * import { detectTermcap, getRemoteSession } from "tinky-termcap";
+ *
+ * // Measure the latency before sizing the wait over SSH
+ * const caps = await detectTermcap({
+ *   stdin,
+ *   stdout,
+ *   adaptiveTimeout: getRemoteSession() !== undefined,
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { existsSync } from "node:fs";
+
+/**
+ * Kind of session the application runs in.
+ *
+ * - `"ssh"` - an SSH login
+ * - `"mosh"` - a mosh session
+ * - `"container"` - a Docker, Podman or systemd-nspawn container
+ */
+export type RemoteSession = "ssh" | "mosh" | "container";
+
+/**
+ * Files whose presence marks a container.
+ *
+ * @internal
+ */
+const CONTAINER_MARKERS = ["/.dockerenv", "/run/.containerenv"];
+
+/**
+ * Detect whether the application runs over SSH, mosh or in a container.
+ *
+ * Rules, in order of precedence:
+ * - `"mosh"` if `MOSH_SERVER_PID` is set
+ * - `"ssh"` if `SSH_TTY`, `SSH_CONNECTION` or `SSH_CLIENT` is set
+ * - `"container"` if `container` is set (Podman, systemd-nspawn) or
+ *   `/.dockerenv` or `/run/.containerenv` exists
+ *
+ * @param env - Environment to read. Defaults to `process.env`.
+ * @param fileExists - Checks for the container marker files. Defaults to
+ *   `fs.existsSync`.
+ * @returns The session kind, or `undefined` for a local session
+ *
+ * @example
+ * ```typescript
+ * getRemoteSession({ SSH_TTY: "/dev/pts/3" }); // "ssh"
+ * getRemoteSession({}, () => false); // undefined
+ * ```
+ */
+export function getRemoteSession(
+  env: Record<string, string | undefined> = process.env,
+  fileExists: (path: string) => boolean = existsSync,
+): RemoteSession | undefined {
+  if (env.MOSH_SERVER_PID) {
+    return "mosh";
+  }
+  if (env.SSH_TTY || env.SSH_CONNECTION || env.SSH_CLIENT) {
+    return "ssh";
+  }
+  if (env.container || CONTAINER_MARKERS.some((path) => fileExists(path))) {
+    return "container";
+  }
+  return undefined;
+}
@@ -0,0 +1,376 @@
+/**
+ * @fileoverview Separation of terminal replies from user input on stdin.
+ *
+ * Terminal query replies arrive on the same stream as the user's
+ * keystrokes. While detection is running, this module intercepts stdin
+ * `data` events, hands recognised replies to the detection code and
+ * re-emits everything else to the application's listeners, so keys typed
+ * during detection are neither lost nor mixed with replies. After
+ * detection it can keep dropping replies for a grace period, so answers
+ * that arrive after a timeout do not reach the application as garbage
+ * input.
+ *
+ * Recognised replies are OSC, DCS, APC, PM and SOS strings, CSI sequences
+ * with a `?`, `>` or `=` parameter prefix (none of which a keyboard
+ * produces) and anything matching caller-supplied patterns.
+ *
+ * @packageDocumentation
+ */
+
+import { type ReadStream } from "tinky";
+
+/**
+ * Escape character constant used in ANSI escape sequences.
+ * @internal
+ */
+const ESC = "\x1b";
+
+/**
+ * Default time in milliseconds during which late replies are dropped after
+ * detection timed out.
+ */
+export const DEFAULT_RESPONSE_GRACE_PERIOD = 500;
+
+/**
+ * Time in milliseconds an unterminated reply is held back before it is
+ * passed on as input.
+ *
+ * Replies split across chunks complete within milliseconds. Keys such as
+ * Alt+] or Alt+Shift+P produce the same introducers (`ESC ]`, `ESC P`) but
+ * are never completed, so holding them indefinitely would swallow them and
+ * everything typed afterwards.
+ *
+ * @internal
+ */
+const PARTIAL_RESPONSE_TIMEOUT = 100;
+
+/**
+ * Matches a complete terminal reply at the start of the input.
+ *
+ * @internal
+ */
+const RESPONSE_REGEX = new RegExp(
+  `^${ESC}(?:[\\]P_^X][\\s\\S]*?(?:\\x07|${ESC}\\\\)|\\[[?>=][0-9;:?]*[ -/]*[@-~])`,
+);
+
+/**
+ * Matches the start of a terminal reply that has not been completed yet.
+ *
+ * @internal
+ */
+const PARTIAL_RESPONSE_REGEX = new RegExp(
+  `^${ESC}(?:[\\]P_^X][\\s\\S]*|\\[[?>=][0-9;:?]*[ -/]*)$`,
+);
+
+/**
+ * Result of {@link splitTerminalResponses}.
+ */
+export interface SplitResponses {
+  /** Input with the replies removed. */
+  input: string;
+  /** Replies found in the data, in order. */
+  responses: string[];
+  /**
+   * Unterminated reply at the end of the data. Prepend it to the next
+   * chunk.
+   */
+  partial: string;
+}
+
+/**
+ * Separate terminal replies from user input.
+ *
+ * @param data - Raw stdin data
+ * @param patterns - Additional reply patterns, e.g. the `responseRegex` of
+ *   custom features whose replies are not OSC, DCS or private CSI sequences
+ * @returns The input without replies, the replies and any unterminated
+ *   reply at the end of `data`
+ *
+ * @example
+ * ```typescript
+ * splitTerminalResponses("a\x1b[?62cb");
+ * // { input: "ab", responses: ["\x1b[?62c"], partial: "" }
+ * ```
+ */
+export function splitTerminalResponses(
+  data: string,
+  patterns: readonly RegExp[] = [],
+): SplitResponses {
+  const responses: string[] = [];
+  let input = "";
+  let partial = "";
+
+  let index = 0;
+  while (index < data.length) {
+    const escape = data.indexOf(ESC, index);
+    if (escape === -1) {
+      input += data.slice(index);
+      break;
+    }
+    input += data.slice(index, escape);
+
+    const rest = data.slice(escape);
+    const match = rest.match(RESPONSE_REGEX);
+    if (match) {
+      responses.push(match[0]);
+      index = escape + match[0].length;
+    } else if (PARTIAL_RESPONSE_REGEX.test(rest)) {
+      partial = rest;
+      break;
+    } else {
+      input += ESC;
+      index = escape + 1;
+    }
+  }
+
+  for (const pattern of patterns) {
+    let match = input.match(pattern);
+    while (match && match[0] && match.index !== undefined) {
+      responses.push(match[0]);
+      input =
+        input.slice(0, match.index) +
+        input.slice(match.index + match[0].length);
+      match = input.match(pattern);
+    }
+  }
+
+  return { input, responses, partial };
+}
+
+/**
+ * A stream whose `emit` can be intercepted.
+ *
+ * @internal
+ */
+type EmittingStream = ReadStream & {
+  emit?: (event: string | symbol, ...args: unknown[]) => boolean;
+  readableFlowing?: boolean | null;
+  resume?: () => unknown;
+  pause?: () => unknown;
+  listenerCount?: (event: string) => number;
+};
+
+/**
+ * Interception state of a stream.
+ *
+ * @internal
+ */
+interface FilterState {
+  handlers: Set<FilterHandler>;
+  pending: string;
+  /** Passes `pending` on as input after {@link PARTIAL_RESPONSE_TIMEOUT}. */
+  pendingTimeoutId?: ReturnType<typeof setTimeout>;
+  restore: () => void;
+}
+
+/**
+ * A registered reply consumer.
+ *
+ * @internal
+ */
+interface FilterHandler {
+  onResponse: (response: string) => void;
+  patterns: readonly RegExp[];
+}
+
+/**
+ * Streams currently being filtered.
+ *
+ * @internal
+ */
+const filters = new WeakMap<EmittingStream, FilterState>();
+
+/**
+ * Start intercepting `stream`'s `data` events.
+ *
+ * @internal
+ */
+function install(
+  stream: EmittingStream,
+  originalEmit: NonNullable<EmittingStream["emit"]>,
+): FilterState {
+  const ownEmit = Object.prototype.hasOwnProperty.call(stream, "emit");
+  // Input is re-emitted in the form the stream delivered it
+  let binary = true;
+
+  // A paused Readable (e.g. `process.stdin` before anything reads it) never
+  // emits `data`, so keep it flowing while filtering
+  const wasFlowing = stream.readableFlowing;
+  const consume = () => {
+    // Data is handled by the patched `emit`
+  };
+  const paused = wasFlowing === null || wasFlowing === false;
+  if (paused) {
+    stream.on?.("data", consume);
+    stream.resume?.();
+  }
+
+  const emitInput = (input: string) =>
+    input
+      ? originalEmit.call(stream, "data", binary ? Buffer.from(input) : input)
+      : false;
+
+  const dispatch = (data: string): boolean => {
+    const patterns = [...state.handlers].flatMap((handler) => handler.patterns);
+    const { input, responses, partial } = splitTerminalResponses(
+      data,
+      patterns,
+    );
+
+    // The time limit starts with the introducer; further chunks of the same
+    // unterminated reply do not extend it
+    const continued =
+      partial !== "" &&
+      state.pending !== "" &&
+      partial.startsWith(state.pending);
+    if (!continued) {
+      clearTimeout(state.pendingTimeoutId);
+      if (partial) {
+        state.pendingTimeoutId = setTimeout(flush, PARTIAL_RESPONSE_TIMEOUT);
+        state.pendingTimeoutId.unref?.();
+      }
+    }
+    state.pending = partial;
+
+    for (const response of responses) {
+      for (const handler of state.handlers) {
+        handler.onResponse(response);
+      }
+    }
+    return emitInput(input);
+  };
+
+  // An introducer that was never completed was typed by the user: pass it
+  // on and look for replies in what followed it
+  const flush = () => {
+    const { pending } = state;
+    state.pending = "";
+    emitInput(pending.slice(0, 2));
+    dispatch(pending.slice(2));
+  };
+
+  const state: FilterState = {
+    handlers: new Set(),
+    pending: "",
+    restore: () => {
+      clearTimeout(state.pendingTimeoutId);
+      if (ownEmit) {
+        stream.emit = originalEmit;
+      } else {
+        delete stream.emit;
+      }
+      filters.delete(stream);
+
+      // Whatever is still held back belongs to the application
+      const { pending } = state;
+      state.pending = "";
+      emitInput(pending);
+
+      if (paused) {
+        stream.off?.("data", consume);
+        // Leave the stream flowing for listeners added in the meantime
+        if (wasFlowing === false || !stream.listenerCount?.("data")) {
+          stream.pause?.();
+          stream.readableFlowing = wasFlowing;
+        }
+      }
+    },
+  };
+
+  stream.emit = function (event, ...args) {
+    if (event !== "data") {
+      return originalEmit.call(this, event, ...args);
+    }
+
+    const chunk = args[0];
+    binary = typeof chunk !== "string";
+    return dispatch(state.pending + String(chunk));
+  };
+
+  filters.set(stream, state);
+  return state;
+}
+
+/**
+ * Route terminal replies on `stdin` to `onResponse` and everything else to
+ * the stream's other `data` listeners.
+ *
+ * Several filters can be active on the same stream, e.g. initial detection
+ * and a color refresh; each receives every reply. Streams that cannot be
+ * intercepted (no `emit` method) are only listened to, so replies still
+ * reach the other listeners.
+ *
+ * A reply split across chunks is held back until it is complete. Keys that
+ * send the same introducers (Alt+] sends `ESC ]`) never complete, so data
+ * held back for more than 100 milliseconds, or when the stream is released,
+ * is passed on as input.
+ *
+ * A paused stream is resumed while it is filtered and paused again when it
+ * is released, unless other `data` listeners were added in the meantime.
+ *
+ * @param stdin - Input stream to filter
+ * @param onResponse - Called with each reply
+ * @param patterns - Additional reply patterns, see
+ *   {@link splitTerminalResponses}
+ * @returns Function that stops forwarding replies to `onResponse`. Replies
+ *   keep being dropped from the input for `gracePeriod` milliseconds
+ *   (default `0`) before the stream is released.
+ *
+ * @example
+ * ```typescript
+ * const release = filterTerminalResponses(process.stdin, (response) => {
+ *   console.log("reply:", JSON.stringify(response));
+ * });
+ * process.stdout.write("\x1b[c");
+ *
+ * // Later, e.g. after a timeout
+ * release(DEFAULT_RESPONSE_GRACE_PERIOD);
+ * ```
+ */
+export function filterTerminalResponses(
+  stdin: ReadStream | undefined,
+  onResponse: (response: string) => void,
+  patterns: readonly RegExp[] = [],
+): (gracePeriod?: number) => void {
+  const stream = stdin as EmittingStream | undefined;
+
+  if (typeof stream?.emit !== "function") {
+    const onData = (data: unknown) => {
+      splitTerminalResponses(String(data), patterns).responses.forEach(
+        onResponse,
+      );
+    };
+    stdin?.on?.("data", onData);
+    return () => {
+      stdin?.off?.("data", onData);
+    };
+  }
+
+  const state = filters.get(stream) ?? install(stream, stream.emit);
+  const handler: FilterHandler = { onResponse, patterns };
+  state.handlers.add(handler);
+
+  let released = false;
+  const remove = () => {
+    state.handlers.delete(handler);
+    if (state.handlers.size === 0) {
+      state.restore();
+    }
+  };
+
+  return (gracePeriod = 0) => {
+    if (released) {
+      return;
+    }
+    released = true;
+    handler.onResponse = () => {
+      // Late replies are dropped during the grace period
+    };
+
+    if (gracePeriod > 0) {
+      setTimeout(remove, gracePeriod).unref?.();
+    } else {
+      remove();
+    }
+  };
+}
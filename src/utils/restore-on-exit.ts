@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Guaranteed restoration of terminal modes.
+ *
+ * Keyboard modes such as the Kitty keyboard protocol or modifyOtherKeys
+ * outlive the process that enabled them: if the application exits without
+ * resetting them, the user's shell receives escape codes instead of plain
+ * keys. This module runs a restore function on normal exit, `SIGINT`,
+ * `SIGTERM` and uncaught exceptions, without changing how the process
+ * otherwise reacts to them.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Signals after which terminal modes are restored.
+ *
+ * @internal
+ */
+const RESTORE_SIGNALS = ["SIGINT", "SIGTERM"] as const;
+
+/**
+ * Run `restore` once, on the first of: the returned function being called,
+ * process exit, `SIGINT`, `SIGTERM` or an uncaught exception.
+ *
+ * Signal handlers re-raise the signal after restoring when no other
+ * handler is installed, so the default termination behavior is preserved.
+ * Uncaught exceptions are observed through `uncaughtExceptionMonitor` and
+ * still crash the process.
+ *
+ * @param restore - Function that resets the terminal mode
+ * @returns Function that runs `restore` (if it has not run yet) and removes
+ *   all handlers
+ *
+ * @example
+ * ```typescript
+ * stdout.write("\x1b[?1049h");
+ * const leave = restoreOnExit(() => stdout.write("\x1b[?1049l"));
+ *
+ * // ... later
+ * leave();
+ * ```
+ *
+ * @internal
+ */
+export function restoreOnExit(restore: () => void): () => void {
+  let pending = true;
+
+  const run = () => {
+    if (!pending) {
+      return;
+    }
+    pending = false;
+    process.off("exit", run);
+    process.off("uncaughtExceptionMonitor", run);
+    for (const signal of RESTORE_SIGNALS) {
+      process.off(signal, onSignal);
+    }
+    restore();
+  };
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    run();
+    if (process.listenerCount(signal) === 0) {
+      process.kill(process.pid, signal);
+    }
+  };
+
+  process.on("exit", run);
+  process.on("uncaughtExceptionMonitor", run);
+  for (const signal of RESTORE_SIGNALS) {
+    process.on(signal, onSignal);
+  }
+
+  return run;
+}
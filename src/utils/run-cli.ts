@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Implementation of the `tinky-termcap` command-line tool.
+ *
+ * Parses the arguments, runs detection on the given streams and prints the
+ * results. Kept apart from the `cli.ts` entry point so the tool can be run
+ * against other streams than the process's own.
+ *
+ * @packageDocumentation
+ */
+
+import { parseArgs } from "node:util";
+import { type ReadStream } from "tinky";
+import { DEFAULT_DETECTION_TIMEOUT, detectTermcap } from "./detect-termcap.js";
+import { formatDiagnostics, formatTermcap } from "./format-termcap.js";
+
+/**
+ * Usage text printed by `--help`.
+ *
+ * @internal
+ */
+const USAGE = `Usage: tinky-termcap [options]
+
+Detect and print the capabilities of the current terminal.
+
+Options:
+  --json          Print the results as JSON
+  --raw           Include the queries sent and the raw terminal replies
+  --passthrough   Query the terminal outside tmux or screen
+  --adaptive      Size the wait from the measured round-trip time
+  --timeout <ms>  Detection timeout in milliseconds (default: ${DEFAULT_DETECTION_TIMEOUT})
+  -h, --help      Show this help
+`;
+
+/**
+ * Streams the CLI runs on, usually `process`.
+ *
+ * @internal
+ */
+export interface CliStreams {
+  stdin: NodeJS.ReadStream;
+  stdout: NodeJS.WriteStream;
+  stderr: NodeJS.WriteStream;
+}
+
+/**
+ * Run the CLI and return the process exit code.
+ *
+ * Exit codes: `0` on success, `1` if detection failed, `2` for invalid
+ * arguments and `130` if the user pressed Ctrl+C.
+ *
+ * @param args - Command-line arguments, without the executable and script
+ * @param streams - Streams to read replies from and write output to
+ * @returns The exit code
+ *
+ * @internal
+ */
+export async function runCli(
+  args: string[],
+  { stdin, stdout, stderr }: CliStreams,
+): Promise<number> {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        json: { type: "boolean", default: false },
+        raw: { type: "boolean", default: false },
+        passthrough: { type: "boolean", default: false },
+        adaptive: { type: "boolean", default: false },
+        timeout: { type: "string" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    }));
+  } catch (error) {
+    stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (values.help) {
+    stdout.write(USAGE);
+    return 0;
+  }
+
+  const timeout =
+    values.timeout === undefined
+      ? DEFAULT_DETECTION_TIMEOUT
+      : Number(values.timeout);
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    stderr.write(`Invalid timeout: ${values.timeout}\n`);
+    return 2;
+  }
+
+  // Queries must reach the terminal even when the output is redirected
+  const terminal = stdout.isTTY ? stdout : stderr;
+  const interactive = stdin.isTTY && terminal.isTTY;
+  if (!interactive) {
+    stderr.write(
+      "Not attached to a terminal; showing environment-based results only\n",
+    );
+  }
+
+  // Ctrl+C does not raise SIGINT in raw mode
+  const controller = new AbortController();
+  const onData = (data: unknown) => {
+    if (String(data).includes("\x03")) {
+      controller.abort();
+    }
+  };
+
+  let caps;
+  try {
+    if (interactive) {
+      stdin.setRawMode(true);
+      stdin.on("data", onData);
+    }
+    caps = await detectTermcap({
+      // Node's stream signatures are wider than tinky's
+      stdin: stdin as unknown as ReadStream,
+      stdout: interactive ? terminal : undefined,
+      timeout: interactive ? timeout : 0,
+      signal: controller.signal,
+      diagnostics: true,
+      passthrough: values.passthrough,
+      adaptiveTimeout: values.adaptive,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return 130;
+    }
+    stderr.write(`Detection failed: ${(error as Error).message}\n`);
+    return 1;
+  } finally {
+    if (interactive) {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+    }
+  }
+
+  const { diagnostics, ...info } = caps;
+  if (values.json) {
+    const output = values.raw ? caps : info;
+    stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+  } else {
+    stdout.write(`${formatTermcap(info)}\n`);
+    if (values.raw && diagnostics) {
+      stdout.write(`\n${formatDiagnostics(diagnostics)}\n`);
+    }
+  }
+  return 0;
+}
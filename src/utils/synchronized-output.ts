@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Synchronized output (DEC private mode 2026).
+ *
+ * While mode 2026 is set, the terminal keeps showing the previous screen
+ * and applies all output at once when the mode is reset. Bracketing each
+ * frame with `CSI ? 2026 h` / `CSI ? 2026 l` therefore removes the tearing
+ * and flicker of redrawing a large frame line by line. This module wraps a
+ * stdout stream so every frame written to it is bracketed.
+ *
+ * @example
+ * ```typescript
+ * import { synchronizeOutput } from "tinky-termcap";
+ *
+ * const unwrap = synchronizeOutput(process.stdout);
+ * process.stdout.write(frame); // shown atomically
+ *
+ * // ... later
+ * unwrap();
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { type WriteStream } from "tinky";
+import { restoreOnExit } from "./restore-on-exit.js";
+
+/**
+ * Escape character constant used in ANSI escape sequences.
+ * @internal
+ */
+const ESC = "\x1b";
+
+/**
+ * Begin a synchronized update (`CSI ? 2026 h`).
+ */
+export const BEGIN_SYNCHRONIZED_UPDATE = `${ESC}[?2026h`;
+
+/**
+ * End a synchronized update (`CSI ? 2026 l`).
+ */
+export const END_SYNCHRONIZED_UPDATE = `${ESC}[?2026l`;
+
+/**
+ * Default time in milliseconds after which an update that was not ended
+ * at the end of its frame is ended anyway.
+ */
+export const DEFAULT_SYNCHRONIZED_UPDATE_TIMEOUT = 100;
+
+/**
+ * Bracket every frame written to `stdout` with synchronized update
+ * sequences.
+ *
+ * The first write of a frame is preceded by `CSI ? 2026 h`. The update is
+ * ended with `CSI ? 2026 l` once the current task finishes, so a frame
+ * written with several synchronous `write` calls (e.g. static output
+ * followed by the dynamic part) is shown at once. Should ending the update
+ * fail, a safety timer retries after `timeout` milliseconds, so the
+ * terminal never keeps holding back the screen. A pending update is also
+ * ended when the returned function is called and on process exit,
+ * `SIGINT`, `SIGTERM` and uncaught exceptions.
+ *
+ * Only use this on terminals that support mode 2026 (see
+ * `TermcapInfo.modes`). Other terminals ignore the sequences, but the
+ * frames are not synchronized either.
+ *
+ * @param stdout - Output stream to wrap. Nothing happens if `undefined`.
+ * @param timeout - Safety timeout in milliseconds. Defaults to
+ *   {@link DEFAULT_SYNCHRONIZED_UPDATE_TIMEOUT}.
+ * @returns Function that ends a pending update and restores the stream's
+ *   original `write`
+ *
+ * @example
+ * ```typescript
+ * const unwrap = synchronizeOutput(stdout);
+ * stdout.write("\x1b[2J");
+ * stdout.write(frame);
+ * // Written: CSI ? 2026 h, "\x1b[2J", frame, CSI ? 2026 l
+ * ```
+ */
+export function synchronizeOutput(
+  stdout: WriteStream | undefined,
+  timeout: number = DEFAULT_SYNCHRONIZED_UPDATE_TIMEOUT,
+): () => void {
+  if (!stdout) {
+    return () => {
+      // Nothing to restore
+    };
+  }
+
+  const originalWrite = stdout.write;
+  const ownWrite = Object.prototype.hasOwnProperty.call(stdout, "write");
+  let pending = false;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const end = () => {
+    if (!pending) {
+      return;
+    }
+    originalWrite.call(stdout, END_SYNCHRONIZED_UPDATE);
+    pending = false;
+    clearTimeout(timeoutId);
+  };
+
+  stdout.write = (...args) => {
+    if (!pending) {
+      pending = true;
+      originalWrite.call(stdout, BEGIN_SYNCHRONIZED_UPDATE);
+      queueMicrotask(() => {
+        try {
+          end();
+        } catch {
+          // Retried by the safety timer
+        }
+      });
+      timeoutId = setTimeout(end, timeout);
+      timeoutId.unref?.();
+    }
+    return originalWrite.apply(stdout, args);
+  };
+
+  return restoreOnExit(() => {
+    end();
+    if (ownWrite) {
+      stdout.write = originalWrite;
+    } else {
+      delete (stdout as Partial<WriteStream>).write;
+    }
+  });
+}
@@ -4,7 +4,9 @@
  * This module defines the query sequences and response patterns for detecting
  * various terminal capabilities. Each feature is represented as a `TermFeature`
  * object containing the ANSI escape sequence to query the feature and a regex
- * pattern to match the terminal's response.
+ * pattern to match the terminal's response. Features that contribute a value
+ * to the detection result are `TermcapFeature` objects, which additionally
+ * carry a result key, a default value and a response parser.
  *
  * @example
  * ```typescript
@@ -23,6 +25,11 @@
  * @packageDocumentation
  */
 
+import {
+  decodeKittyKeyboardFlags,
+  type KittyKeyboardFlags,
+} from "./kitty-keyboard.js";
+
 /**
  * Interface for terminal feature query definitions.
  *
@@ -82,12 +89,175 @@ export interface TermFeature {
   responseRegex: RegExp;
 }
 
+/**
+ * A terminal feature that contributes a typed value to the detection result.
+ *
+ * `TermcapFeature` extends {@link TermFeature} with everything
+ * `detectTermcap` needs to run the probe on its own: the result `key` the
+ * value is stored under, the `defaultValue` used when the terminal does not
+ * answer, and a `parse` function that turns the matched response into the
+ * value. The built-in features are defined the same way, so custom probes
+ * and built-in ones share a single detection code path.
+ *
+ * @typeParam K - Result key the parsed value is stored under
+ * @typeParam V - Type of the parsed value
+ *
+ * @example Registering a custom probe
+ * ```typescript
+ * import { defineFeature, detectTermcap } from "tinky-termcap";
+ *
+ * const InHouseFeature = defineFeature({
+ *   key: "inHouseVersion",
+ *   query: "\x1bP+qinhouse\x1b\\",
+ *   responseRegex: /\x1bP1\+rinhouse=([^\x1b]*)\x1b\\/,
+ *   defaultValue: undefined as string | undefined,
+ *   parse: (match) => match[1],
+ * });
+ *
+ * const caps = await detectTermcap(stdin, stdout, 1000, [InHouseFeature]);
+ * caps.inHouseVersion; // string | undefined
+ * ```
+ *
+ * @see {@link defineFeature} for a helper that infers `K` and `V`
+ * @see {@link BUILTIN_FEATURES} for the features detected by default
+ */
+export interface TermcapFeature<
+  K extends string = string,
+  V = unknown,
+> extends TermFeature {
+  /**
+   * Key under which the parsed value appears in the detection result.
+   *
+   * Custom features whose key matches a built-in key override the built-in
+   * value.
+   */
+  key: K;
+
+  /**
+   * Value reported when the terminal does not answer the query.
+   */
+  defaultValue: V;
+
+  /**
+   * Convert a match of `responseRegex` into the result value.
+   *
+   * Called at most once per detection, with the first matching response.
+   * Several features may share a `key`; each then receives the value
+   * stored so far and returns an updated copy, which lets a group of
+   * queries build up one structured result.
+   *
+   * @param match - Result of matching `responseRegex` against the input
+   * @param current - Value currently stored under `key`
+   * @returns The value to store under `key`
+   */
+  parse(match: RegExpMatchArray, current: V): V;
+}
+
+/**
+ * Maps a list of features to the typed result object they produce.
+ *
+ * @typeParam F - Tuple or array of features
+ *
+ * @example
+ * ```typescript
+ * type Results = FeatureResults<[typeof KittyFeature]>;
+ * // { kittyProtocol: boolean }
+ * ```
+ */
+export type FeatureResults<F extends readonly TermcapFeature[]> = {
+  [Feature in F[number] as Feature["key"]]: Feature["defaultValue"];
+};
+
+/**
+ * Define a custom terminal feature with inferred key and value types.
+ *
+ * This is an identity function; it exists so that the literal `key` and the
+ * value type returned by `parse` are preserved for {@link FeatureResults}.
+ *
+ * @param feature - Feature definition
+ * @returns The same feature definition
+ *
+ * @example
+ * ```typescript
+ * const CursorStyleFeature = defineFeature({
+ *   key: "cursorStyle",
+ *   query: "\x1bP$q q\x1b\\",
+ *   responseRegex: /\x1bP1\$r(\d) q\x1b\\/,
+ *   defaultValue: undefined as number | undefined,
+ *   parse: (match) => parseInt(match[1], 10),
+ * });
+ * ```
+ */
+export function defineFeature<K extends string, V>(
+  feature: TermcapFeature<K, V>,
+): TermcapFeature<K, V> {
+  return feature;
+}
+
 /**
  * Escape character constant used in ANSI escape sequences.
  * @internal
  */
 const ESC = "\x1b";
 
+/**
+ * Parse RGB color from hex components to #rrggbb format.
+ *
+ * Terminal color responses use variable-length hex values (1-4 digits per
+ * component). This function normalizes them to the standard `#rrggbb` format.
+ *
+ * @param rHex - Red component in hex (1-4 digits)
+ * @param gHex - Green component in hex (1-4 digits)
+ * @param bHex - Blue component in hex (1-4 digits)
+ * @returns Normalized color string in `#rrggbb` format
+ *
+ * @example
+ * ```typescript
+ * // 2-digit hex (most common)
+ * parseColor("1a", "1a", "1a"); // "#1a1a1a"
+ *
+ * // 4-digit hex (some terminals)
+ * parseColor("1a1a", "1a1a", "1a1a"); // "#1a1a1a"
+ *
+ * // 1-digit hex
+ * parseColor("f", "0", "0"); // "#ff0000"
+ * ```
+ *
+ * @internal
+ */
+function parseColor(rHex: string, gHex: string, bHex: string): string {
+  const parseComponent = (hex: string) => {
+    const val = parseInt(hex, 16);
+    if (hex.length === 1) return (val / 15) * 255;
+    if (hex.length === 2) return val;
+    if (hex.length === 3) return (val / 4095) * 255;
+    if (hex.length === 4) return (val / 65535) * 255;
+    return val;
+  };
+
+  const r = parseComponent(rHex);
+  const g = parseComponent(gHex);
+  const b = parseComponent(bHex);
+
+  const toHex = (c: number) => Math.round(c).toString(16).padStart(2, "0");
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+}
+
+/**
+ * Build the response pattern for an OSC color query.
+ *
+ * @param code - OSC code and parameters preceding the color, e.g. `"11"`
+ *   or `"4;1"`
+ * @returns Pattern capturing the red, green and blue hex components
+ *
+ * @internal
+ */
+function oscColorRegex(code: string): RegExp {
+  return new RegExp(
+    `${ESC}\\]${code};rgb:([0-9a-fA-F]{1,4})\\/([0-9a-fA-F]{1,4})\\/([0-9a-fA-F]{1,4})(${ESC}\\\\|\\x07)?`,
+  );
+}
+
 /**
  * Kitty Keyboard Protocol feature definition.
  *
@@ -118,9 +288,46 @@ const ESC = "\x1b";
  *
  * @see https://sw.kovidgoyal.net/kitty/keyboard-protocol/
  */
-export const KittyFeature: TermFeature = {
+export const KittyFeature: TermcapFeature<"kittyProtocol", boolean> = {
+  key: "kittyProtocol",
   query: `${ESC}[?u`,
   responseRegex: new RegExp(`${ESC}\\[\\?(\\d+)u`),
+  defaultValue: false,
+  parse: () => true,
+};
+
+/**
+ * Kitty keyboard flags detection feature.
+ *
+ * Shares its query with {@link KittyFeature} (the query is only sent once)
+ * and decodes the reported flags number into the currently active
+ * enhancement flags.
+ *
+ * **Query sequence:** `ESC [ ? u`
+ *
+ * **Response format:** `ESC [ ? <flags> u`
+ *
+ * @example
+ * ```typescript
+ * import { KittyKeyboardFlagsFeature } from "tinky-termcap";
+ *
+ * const match = "\x1b[?5u".match(KittyKeyboardFlagsFeature.responseRegex);
+ * if (match) {
+ *   KittyKeyboardFlagsFeature.parse(match, undefined)?.reportAlternateKeys; // true
+ * }
+ * ```
+ *
+ * @see https://sw.kovidgoyal.net/kitty/keyboard-protocol/#progressive-enhancement
+ */
+export const KittyKeyboardFlagsFeature: TermcapFeature<
+  "kittyKeyboardFlags",
+  KittyKeyboardFlags | undefined
+> = {
+  key: "kittyKeyboardFlags",
+  query: KittyFeature.query,
+  responseRegex: KittyFeature.responseRegex,
+  defaultValue: undefined,
+  parse: (match) => decodeKittyKeyboardFlags(parseInt(match[1], 10)),
 };
 
 /**
@@ -154,13 +361,552 @@ export const KittyFeature: TermFeature = {
  *
  * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Operating-System-Commands
  */
-export const Osc11Feature: TermFeature = {
+export const Osc11Feature: TermcapFeature<
+  "backgroundColor",
+  string | undefined
+> = {
+  key: "backgroundColor",
   query: `${ESC}]11;?${ESC}\\`,
+  responseRegex: oscColorRegex("11"),
+  defaultValue: undefined,
+  parse: (match) => parseColor(match[1], match[2], match[3]),
+};
+
+/**
+ * Colors reported by the terminal's dynamic color and palette queries.
+ *
+ * All colors are normalized to `#rrggbb`. Entries are `undefined` when the
+ * terminal did not answer the corresponding query.
+ *
+ * @example Picking an accent that contrasts with the theme
+ * ```typescript
+ * const { palette, backgroundColor } = useTermcap();
+ *
+ * const accent = palette?.ansi[4] ?? "#0000ff"; // blue
+ * const text = palette?.foreground ?? "#ffffff";
+ * ```
+ */
+export interface TerminalPalette {
+  /**
+   * Default foreground (text) color, queried via OSC 10.
+   */
+  foreground: string | undefined;
+
+  /**
+   * Cursor color, queried via OSC 12.
+   */
+  cursor: string | undefined;
+
+  /**
+   * The 16 ANSI palette entries (0-7 normal, 8-15 bright), queried via
+   * OSC 4. Always has {@link ANSI_PALETTE_SIZE} entries.
+   */
+  ansi: (string | undefined)[];
+}
+
+/**
+ * Number of ANSI palette entries queried via OSC 4.
+ */
+export const ANSI_PALETTE_SIZE = 16;
+
+/**
+ * Return a copy of `palette` (or of an empty palette) with `update` applied.
+ *
+ * @internal
+ */
+function updatePalette(
+  palette: TerminalPalette | undefined,
+  update: (palette: TerminalPalette) => void,
+): TerminalPalette {
+  const next: TerminalPalette = {
+    foreground: palette?.foreground,
+    cursor: palette?.cursor,
+    ansi: palette
+      ? [...palette.ansi]
+      : new Array<string | undefined>(ANSI_PALETTE_SIZE).fill(undefined),
+  };
+  update(next);
+  return next;
+}
+
+/**
+ * Foreground Color detection feature (OSC 10).
+ *
+ * Queries the terminal's default foreground color. The result is stored in
+ * `palette.foreground`.
+ *
+ * **Query sequence:** `ESC ] 10 ; ? ESC \`
+ *
+ * **Response format:** `ESC ] 10 ; rgb:<r>/<g>/<b> ST`
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Operating-System-Commands
+ */
+export const Osc10Feature: TermcapFeature<
+  "palette",
+  TerminalPalette | undefined
+> = {
+  key: "palette",
+  query: `${ESC}]10;?${ESC}\\`,
+  responseRegex: oscColorRegex("10"),
+  defaultValue: undefined,
+  parse: (match, current) =>
+    updatePalette(current, (palette) => {
+      palette.foreground = parseColor(match[1], match[2], match[3]);
+    }),
+};
+
+/**
+ * Cursor Color detection feature (OSC 12).
+ *
+ * Queries the terminal's cursor color. The result is stored in
+ * `palette.cursor`.
+ *
+ * **Query sequence:** `ESC ] 12 ; ? ESC \`
+ *
+ * **Response format:** `ESC ] 12 ; rgb:<r>/<g>/<b> ST`
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Operating-System-Commands
+ */
+export const Osc12Feature: TermcapFeature<
+  "palette",
+  TerminalPalette | undefined
+> = {
+  key: "palette",
+  query: `${ESC}]12;?${ESC}\\`,
+  responseRegex: oscColorRegex("12"),
+  defaultValue: undefined,
+  parse: (match, current) =>
+    updatePalette(current, (palette) => {
+      palette.cursor = parseColor(match[1], match[2], match[3]);
+    }),
+};
+
+/**
+ * ANSI palette detection features (OSC 4), one per palette entry.
+ *
+ * `Osc4Features[n]` queries palette entry `n` (0-15) and stores the result
+ * in `palette.ansi[n]`.
+ *
+ * **Query sequence:** `ESC ] 4 ; <n> ; ? ESC \`
+ *
+ * **Response format:** `ESC ] 4 ; <n> ; rgb:<r>/<g>/<b> ST`
+ *
+ * @example Querying only the normal (non-bright) colors
+ * ```typescript
+ * import { detectTermcap, Osc4Features } from "tinky-termcap";
+ *
+ * const caps = await detectTermcap(stdin, stdout, 1000, Osc4Features.slice(0, 8));
+ * ```
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Operating-System-Commands
+ */
+export const Osc4Features: readonly TermcapFeature<
+  "palette",
+  TerminalPalette | undefined
+>[] = Array.from({ length: ANSI_PALETTE_SIZE }, (_, index) => ({
+  key: "palette",
+  query: `${ESC}]4;${index};?${ESC}\\`,
+  responseRegex: oscColorRegex(`4;${index}`),
+  defaultValue: undefined,
+  parse: (match, current) =>
+    updatePalette(current, (palette) => {
+      palette.ansi[index] = parseColor(match[1], match[2], match[3]);
+    }),
+}));
+
+/**
+ * Color scheme update notification support feature (DEC mode 2031).
+ *
+ * Queries whether the terminal supports private mode 2031, which makes it
+ * report `CSI ? 997 ; <n> n` whenever the user switches between a dark and
+ * a light theme. The result is `true` when the mode exists and can be
+ * enabled.
+ *
+ * **Query sequence:** `ESC [ ? 2031 $ p` (DECRQM)
+ *
+ * **Response format:** `ESC [ ? 2031 ; <status> $ y`
+ * - `status` is `0` (not recognized), `1` (set), `2` (reset),
+ *   `3` (permanently set) or `4` (permanently reset)
+ *
+ * @see https://contour-terminal.org/vt-extensions/color-palette-update-notifications/
+ */
+export const ColorSchemeUpdatesFeature: TermcapFeature<
+  "colorSchemeUpdates",
+  boolean
+> = {
+  key: "colorSchemeUpdates",
+  query: `${ESC}[?2031$p`,
+  responseRegex: new RegExp(`${ESC}\\[\\?2031;(\\d)\\$y`),
+  defaultValue: false,
+  parse: (match) => ["1", "2", "3"].includes(match[1]),
+};
+
+/**
+ * State of a terminal mode as reported by DECRQM.
+ *
+ * - `"notRecognized"` - the terminal does not implement the mode
+ * - `"set"` / `"reset"` - the mode is supported and currently on / off
+ * - `"permanentlySet"` / `"permanentlyReset"` - the mode is always on / off
+ *   and cannot be changed
+ */
+export type ModeStatus =
+  "notRecognized" | "set" | "reset" | "permanentlySet" | "permanentlyReset";
+
+/**
+ * DECRQM results keyed by private mode number.
+ *
+ * Modes the terminal did not answer for are absent.
+ */
+export type TerminalModes = Partial<Record<number, ModeStatus>>;
+
+/**
+ * Well-known DEC private modes probed by default.
+ *
+ * @example
+ * ```typescript
+ * const { modes } = useTermcap();
+ * const canSync = isModeSupported(modes?.[PRIVATE_MODES.synchronizedOutput]);
+ * ```
+ */
+export const PRIVATE_MODES = {
+  /** Focus in/out reports (`CSI I` / `CSI O`). */
+  focusEvents: 1004,
+  /** SGR extended mouse coordinates. */
+  sgrMouse: 1006,
+  /** SGR mouse coordinates in pixels. */
+  sgrPixelsMouse: 1016,
+  /** Alternate screen buffer with cursor save/restore. */
+  alternateScreen: 1049,
+  /** Bracketed paste. */
+  bracketedPaste: 2004,
+  /** Synchronized output (atomic screen updates). */
+  synchronizedOutput: 2026,
+  /** Grapheme cluster-aware cursor movement. */
+  graphemeClustering: 2027,
+} as const;
+
+/**
+ * DECRQM status values, indexed by the reported `Ps`.
+ *
+ * @internal
+ */
+const MODE_STATUSES: readonly ModeStatus[] = [
+  "notRecognized",
+  "set",
+  "reset",
+  "permanentlySet",
+  "permanentlyReset",
+];
+
+/**
+ * Whether a mode is implemented by the terminal, i.e. it was answered
+ * with any status other than `"notRecognized"`.
+ *
+ * @param status - Status from `TermcapInfo.modes`
+ * @returns `true` if the terminal knows the mode
+ *
+ * @example
+ * ```typescript
+ * isModeSupported("reset"); // true - supported, currently off
+ * isModeSupported("notRecognized"); // false
+ * isModeSupported(undefined); // false - no answer
+ * ```
+ */
+export function isModeSupported(status: ModeStatus | undefined): boolean {
+  return status !== undefined && status !== "notRecognized";
+}
+
+/**
+ * Create DECRQM probes for DEC private modes, one per mode number.
+ *
+ * All probes share the `modes` key, so their results are collected in one
+ * {@link TerminalModes} map. Pass them as additional features to probe
+ * modes beyond {@link PRIVATE_MODES}.
+ *
+ * **Query sequence:** `ESC [ ? <mode> $ p`
+ *
+ * **Response format:** `ESC [ ? <mode> ; <status> $ y`
+ * - `status` is `0` (not recognized), `1` (set), `2` (reset),
+ *   `3` (permanently set) or `4` (permanently reset)
+ *
+ * @param modes - Private mode numbers to probe
+ * @returns One feature per mode
+ *
+ * @example Probing the in-band resize mode
+ * ```typescript
+ * const caps = await detectTermcap(stdin, stdout, 1000, createModeFeatures([2048]));
+ * caps.modes?.[2048]; // e.g. "reset"
+ * ```
+ *
+ * @see https://vt100.net/docs/vt510-rm/DECRQM.html
+ */
+export function createModeFeatures(
+  modes: readonly number[],
+): TermcapFeature<"modes", TerminalModes | undefined>[] {
+  return modes.map((mode) => ({
+    key: "modes",
+    query: `${ESC}[?${mode}$p`,
+    responseRegex: new RegExp(`${ESC}\\[\\?${mode};(\\d)\\$y`),
+    defaultValue: undefined,
+    parse: (match, current) => {
+      const status = MODE_STATUSES[parseInt(match[1], 10)];
+      return status ? { ...current, [mode]: status } : current;
+    },
+  }));
+}
+
+/**
+ * DECRQM probes for the modes in {@link PRIVATE_MODES}, part of
+ * {@link EXTENDED_FEATURES}.
+ */
+export const ModeFeatures = createModeFeatures(Object.values(PRIVATE_MODES));
+
+/**
+ * Number of colors a terminal can display.
+ *
+ * - `"truecolor"` - 24-bit direct RGB colors
+ * - `"256"` - the xterm 256-color palette
+ * - `"16"` - the 16 ANSI colors
+ * - `"none"` - no colors (e.g. `NO_COLOR` is set or `TERM=dumb`)
+ */
+export type ColorDepth = "truecolor" | "256" | "16" | "none";
+
+/**
+ * Color depth detection feature (DECRQSS SGR round-trip).
+ *
+ * Sets a direct RGB background color, asks the terminal to report the
+ * current SGR attributes with DECRQSS and resets the attributes again.
+ * Terminals with truecolor support report the color unchanged; terminals
+ * that quantize it report a 256-color or ANSI color instead.
+ *
+ * **Query sequence:** `ESC [ 48 ; 2 ; 1 ; 2 ; 3 m` `ESC P $ q m ESC \`
+ * `ESC [ m`
+ *
+ * **Response format:** `DCS 1 $ r <sgr> m ST`
+ * - `sgr` is the current SGR parameter list, e.g. `0;48:2::1:2:3`
+ *
+ * @example
+ * ```typescript
+ * import { ColorDepthFeature } from "tinky-termcap";
+ *
+ * const match = "\x1bP1$r0;48:2::1:2:3m\x1b\\".match(
+ *   ColorDepthFeature.responseRegex,
+ * );
+ * if (match) {
+ *   ColorDepthFeature.parse(match, undefined); // "truecolor"
+ * }
+ * ```
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Device-Control-functions
+ */
+export const ColorDepthFeature: TermcapFeature<
+  "colorDepth",
+  ColorDepth | undefined
+> = {
+  key: "colorDepth",
+  query: `${ESC}[48;2;1;2;3m${ESC}P$qm${ESC}\\${ESC}[m`,
+  responseRegex: new RegExp(`${ESC}P1\\$r([0-9;:]*)m(${ESC}\\\\|\\x07)`),
+  defaultValue: undefined,
+  parse: (match) => {
+    const sgr = match[1];
+    if (/(^|;)48[:;]2[:;]{1,2}1[:;]2[:;]3($|;)/.test(sgr)) {
+      return "truecolor";
+    }
+    if (/(^|;)48[:;]5[:;]\d+($|;)/.test(sgr)) {
+      return "256";
+    }
+    if (/(^|;)(4[0-7]|10[0-7])($|;)/.test(sgr)) {
+      return "16";
+    }
+    // The terminal dropped the color entirely; let other sources decide
+    return undefined;
+  },
+};
+
+/**
+ * Image protocols supported by the terminal.
+ *
+ * @example Choosing an image protocol
+ * ```tsx
+ * const { graphics } = useTermcap();
+ *
+ * if (graphics?.kitty) {
+ *   return <KittyImage src={path} />;
+ * }
+ * if (graphics?.sixel) {
+ *   return <SixelImage src={path} maxColors={graphics.sixelColorRegisters} />;
+ * }
+ * return <Text>Images are not supported in this terminal</Text>;
+ * ```
+ */
+export interface GraphicsSupport {
+  /**
+   * Kitty graphics protocol, detected with a query action (`a=q`) that
+   * transmits a 1x1 image without displaying it. Only queried with
+   * `EXTENDED_FEATURES`.
+   */
+  kitty: boolean;
+
+  /**
+   * Sixel graphics, from Device Attributes attribute 4 or an XTSMGRAPHICS
+   * reply.
+   */
+  sixel: boolean;
+
+  /**
+   * iTerm2 inline images (`OSC 1337 ; File=`), inferred from the terminal
+   * identity since the protocol cannot be queried.
+   */
+  iterm2: boolean;
+
+  /**
+   * Number of sixel color registers, from XTSMGRAPHICS.
+   */
+  sixelColorRegisters?: number;
+
+  /**
+   * Maximum sixel image size in pixels, from XTSMGRAPHICS.
+   */
+  sixelMaxGeometry?: { width: number; height: number };
+}
+
+/**
+ * Return a copy of `graphics` (or of an empty result) with `update`
+ * applied.
+ *
+ * @internal
+ */
+function updateGraphics(
+  graphics: GraphicsSupport | undefined,
+  update: (graphics: GraphicsSupport) => void,
+): GraphicsSupport {
+  const next: GraphicsSupport = {
+    kitty: false,
+    sixel: false,
+    iterm2: false,
+    ...graphics,
+  };
+  update(next);
+  return next;
+}
+
+/**
+ * Kitty graphics protocol detection feature.
+ *
+ * Sends a query action for a 1x1 RGB image with id 31; supporting
+ * terminals answer without displaying anything, others ignore the APC
+ * sequence. The result is stored in `graphics.kitty`.
+ *
+ * **Query sequence:** `ESC _ G i=31,s=1,v=1,a=q,t=d,f=24;AAAA ESC \`
+ *
+ * **Response format:** `ESC _ G i=31;<status> ESC \`
+ * - `status` is `OK`, or an error such as `ENOTSUPPORTED:...`
+ *
+ * @see https://sw.kovidgoyal.net/kitty/graphics-protocol/#querying-support-and-available-transmission-mediums
+ */
+export const KittyGraphicsFeature: TermcapFeature<
+  "graphics",
+  GraphicsSupport | undefined
+> = {
+  key: "graphics",
+  query: `${ESC}_Gi=31,s=1,v=1,a=q,t=d,f=24;AAAA${ESC}\\`,
   responseRegex: new RegExp(
-    `${ESC}\\]11;rgb:([0-9a-fA-F]{1,4})\\/([0-9a-fA-F]{1,4})\\/([0-9a-fA-F]{1,4})(${ESC}\\\\|\\x07)?`,
+    `${ESC}_Gi=31;([^${ESC}\\x07]*)(?:${ESC}\\\\|\\x07)`,
   ),
+  defaultValue: undefined,
+  parse: (match, current) =>
+    updateGraphics(current, (graphics) => {
+      graphics.kitty = match[1] === "OK";
+    }),
+};
+
+/**
+ * Sixel color register detection feature (XTSMGRAPHICS).
+ *
+ * Reads the number of color registers available to sixel images. A
+ * successful reply also means the terminal supports sixel. The result is
+ * stored in `graphics.sixelColorRegisters`.
+ *
+ * **Query sequence:** `ESC [ ? 1 ; 1 ; 0 S`
+ *
+ * **Response format:** `ESC [ ? 1 ; <status> ; <registers> S`
+ * - `status` is `0` on success
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Functions-using-CSI-_-ordered-by-the-final-character_s_
+ */
+export const SixelColorRegistersFeature: TermcapFeature<
+  "graphics",
+  GraphicsSupport | undefined
+> = {
+  key: "graphics",
+  query: `${ESC}[?1;1;0S`,
+  responseRegex: new RegExp(`${ESC}\\[\\?1;(\\d+)(?:;(\\d+))?S`),
+  defaultValue: undefined,
+  parse: (match, current) =>
+    updateGraphics(current, (graphics) => {
+      if (match[1] === "0" && match[2]) {
+        graphics.sixel = true;
+        graphics.sixelColorRegisters = parseInt(match[2], 10);
+      }
+    }),
+};
+
+/**
+ * Sixel geometry detection feature (XTSMGRAPHICS).
+ *
+ * Reads the maximum size of a sixel image. The result is stored in
+ * `graphics.sixelMaxGeometry`.
+ *
+ * **Query sequence:** `ESC [ ? 2 ; 4 ; 0 S`
+ *
+ * **Response format:** `ESC [ ? 2 ; <status> ; <width> ; <height> S`
+ * - `status` is `0` on success
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Functions-using-CSI-_-ordered-by-the-final-character_s_
+ */
+export const SixelGeometryFeature: TermcapFeature<
+  "graphics",
+  GraphicsSupport | undefined
+> = {
+  key: "graphics",
+  query: `${ESC}[?2;4;0S`,
+  responseRegex: new RegExp(`${ESC}\\[\\?2;(\\d+)(?:;(\\d+);(\\d+))?S`),
+  defaultValue: undefined,
+  parse: (match, current) =>
+    updateGraphics(current, (graphics) => {
+      if (match[1] === "0" && match[2] && match[3]) {
+        graphics.sixel = true;
+        graphics.sixelMaxGeometry = {
+          width: parseInt(match[2], 10),
+          height: parseInt(match[3], 10),
+        };
+      }
+    }),
 };
 
+/**
+ * Features reporting the terminal's colors, re-queried when the color
+ * scheme changes.
+ *
+ * @example Re-querying colors after a theme switch
+ * ```typescript
+ * import { COLOR_FEATURES, queryFeatures } from "tinky-termcap";
+ *
+ * const { backgroundColor, palette } = await queryFeatures(
+ *   stdin,
+ *   stdout,
+ *   500,
+ *   COLOR_FEATURES,
+ * );
+ * ```
+ */
+export const COLOR_FEATURES = [
+  Osc11Feature,
+  Osc10Feature,
+  Osc12Feature,
+  ...Osc4Features,
+] as const;
+
 /**
  * Terminal Name detection feature (XTVERSION).
  *
@@ -192,23 +938,172 @@ export const Osc11Feature: TermFeature = {
  *
  * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-PC-Style-Function-Keys
  */
-export const TerminalNameFeature: TermFeature = {
+export const TerminalNameFeature: TermcapFeature<
+  "terminalName",
+  string | undefined
+> = {
+  key: "terminalName",
   query: `${ESC}[>q`,
   responseRegex: new RegExp(`${ESC}P>\\|(.+?)(${ESC}\\\\|\\x07)`),
+  defaultValue: undefined,
+  parse: (match) => match[1],
 };
 
+/**
+ * Attribute advertised in a Primary Device Attributes (DA1) response.
+ *
+ * Each name corresponds to a numeric code in the DA1 parameter list:
+ *
+ * | Code | Attribute                     |
+ * | ---- | ----------------------------- |
+ * | 1    | `columns132`                  |
+ * | 2    | `printer`                     |
+ * | 3    | `regis`                       |
+ * | 4    | `sixel`                       |
+ * | 6    | `selectiveErase`              |
+ * | 8    | `userDefinedKeys`             |
+ * | 9    | `nationalReplacementCharsets` |
+ * | 15   | `technicalCharacters`         |
+ * | 16   | `locatorPort`                 |
+ * | 17   | `terminalStateInterrogation`  |
+ * | 18   | `userWindows`                 |
+ * | 21   | `horizontalScrolling`         |
+ * | 22   | `ansiColor`                   |
+ * | 28   | `rectangularEditing`          |
+ * | 29   | `ansiTextLocator`             |
+ * | 52   | `clipboard`                   |
+ */
+export type DeviceAttribute =
+  | "columns132"
+  | "printer"
+  | "regis"
+  | "sixel"
+  | "selectiveErase"
+  | "userDefinedKeys"
+  | "nationalReplacementCharsets"
+  | "technicalCharacters"
+  | "locatorPort"
+  | "terminalStateInterrogation"
+  | "userWindows"
+  | "horizontalScrolling"
+  | "ansiColor"
+  | "rectangularEditing"
+  | "ansiTextLocator"
+  | "clipboard";
+
+/**
+ * DA1 parameter codes mapped to attribute names.
+ * @internal
+ */
+const DEVICE_ATTRIBUTE_CODES: Readonly<Record<number, DeviceAttribute>> = {
+  1: "columns132",
+  2: "printer",
+  3: "regis",
+  4: "sixel",
+  6: "selectiveErase",
+  8: "userDefinedKeys",
+  9: "nationalReplacementCharsets",
+  15: "technicalCharacters",
+  16: "locatorPort",
+  17: "terminalStateInterrogation",
+  18: "userWindows",
+  21: "horizontalScrolling",
+  22: "ansiColor",
+  28: "rectangularEditing",
+  29: "ansiTextLocator",
+  52: "clipboard",
+};
+
+/**
+ * Decoded Primary Device Attributes (DA1) response.
+ *
+ * @example Gating features on advertised attributes
+ * ```typescript
+ * const { deviceAttributes } = useTermcap();
+ *
+ * const canSixel = deviceAttributes?.attributes.includes("sixel") ?? false;
+ * const canClipboard =
+ *   deviceAttributes?.attributes.includes("clipboard") ?? false;
+ * ```
+ */
+export interface DeviceAttributes {
+  /**
+   * Conformance level of the terminal.
+   *
+   * `1` for VT100/VT102-class terminals (`CSI ? 1 ; … c`, `CSI ? 6 c`),
+   * otherwise derived from the operating level code: `62` (VT220) is level
+   * `2`, `63` (VT320) level `3`, `64` (VT420) level `4` and `65` (VT5xx)
+   * level `5`.
+   */
+  conformanceLevel: number;
+
+  /**
+   * Recognised attributes advertised by the terminal, without duplicates.
+   *
+   * Only level 2 and higher terminals report attribute codes; VT100-class
+   * responses always yield an empty list.
+   */
+  attributes: DeviceAttribute[];
+
+  /**
+   * Raw numeric parameters of the response, including the operating level
+   * and any codes without a known attribute name.
+   */
+  params: number[];
+}
+
+/**
+ * Decode the parameter list of a DA1 response.
+ *
+ * @param params - Semicolon-separated parameters, e.g. `"64;1;4;22"`
+ * @returns Decoded conformance level and attributes
+ *
+ * @example
+ * ```typescript
+ * parseDeviceAttributes("64;1;4;22");
+ * // { conformanceLevel: 4, attributes: ["columns132", "sixel", "ansiColor"],
+ * //   params: [64, 1, 4, 22] }
+ * ```
+ *
+ * @internal
+ */
+function parseDeviceAttributes(params: string): DeviceAttributes {
+  const codes = params
+    .split(";")
+    .filter((param) => param !== "")
+    .map((param) => parseInt(param, 10));
+  const [level = 1, ...rest] = codes;
+
+  // Levels 1 (VT100) and 6 (VT102) predate the attribute list
+  if (level < 61) {
+    return { conformanceLevel: 1, attributes: [], params: codes };
+  }
+
+  const attributes: DeviceAttribute[] = [];
+  for (const code of rest) {
+    const attribute = DEVICE_ATTRIBUTE_CODES[code];
+    if (attribute && !attributes.includes(attribute)) {
+      attributes.push(attribute);
+    }
+  }
+
+  return { conformanceLevel: level - 60, attributes, params: codes };
+}
+
 /**
  * Device Attributes detection feature (Primary DA).
  *
  * Queries the terminal's primary device attributes. This is commonly used
  * as a "sentinel" query - terminals always respond to this, making it
  * useful to determine when the terminal has finished responding to all
- * capability queries.
+ * capability queries. The response is also decoded into a
+ * {@link DeviceAttributes} value reported as `deviceAttributes`.
  *
  * **Query sequence:** `ESC [ c`
  *
  * **Response format:** `ESC [ ? <params> c`
- * - `params` is a semicolon-separated list of attribute codes
+ * - `params` is a semicolon-separated list: the operating level (e.g. `62`
+ *   for VT220, `64` for VT420) followed by attribute codes
  *
  * @example Using as detection sentinel
  * ```typescript
@@ -223,11 +1118,196 @@ export const TerminalNameFeature: TermFeature = {
  * }
  * ```
  *
+ * @example Decoding the response
+ * ```typescript
+ * const match = "\x1b[?64;4;22c".match(DeviceAttributesFeature.responseRegex);
+ * if (match) {
+ *   const da1 = DeviceAttributesFeature.parse(match, undefined);
+ *   console.log(da1?.conformanceLevel, da1?.attributes); // 4 ["sixel", "ansiColor"]
+ * }
+ * ```
+ *
  * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Device-Status-Report
  */
-export const DeviceAttributesFeature: TermFeature = {
+export const DeviceAttributesFeature: TermcapFeature<
+  "deviceAttributes",
+  DeviceAttributes | undefined
+> = {
+  key: "deviceAttributes",
   query: `${ESC}[c`,
-  responseRegex: new RegExp(`${ESC}\\[\\?(\\d+)(;\\d+)*c`),
+  responseRegex: new RegExp(`${ESC}\\[\\?(\\d+(?:;\\d*)*)c`),
+  defaultValue: undefined,
+  parse: (match) => parseDeviceAttributes(match[1]),
+};
+
+/**
+ * Terminal emulator family inferred from a Secondary Device Attributes
+ * (DA2) response.
+ */
+export type TerminalFamily = "xterm" | "vte" | "screen" | "tmux" | "mintty";
+
+/**
+ * Decoded Secondary Device Attributes (DA2) response.
+ *
+ * @example Identifying the terminal without XTVERSION
+ * ```typescript
+ * const { terminalName, secondaryDeviceAttributes } = useTermcap();
+ *
+ * const label =
+ *   terminalName ?? secondaryDeviceAttributes?.family ?? "unknown";
+ * ```
+ */
+export interface SecondaryDeviceAttributes {
+  /**
+   * Terminal type identifier (`Pp`), e.g. `41` for xterm's default VT420
+   * emulation, `83` (`"S"`) for GNU screen or `84` (`"T"`) for tmux.
+   */
+  terminalType: number;
+
+  /**
+   * Firmware version (`Pv`). Emulators report their own version here, e.g.
+   * xterm's patch number (`388`) or VTE's version as `MMmmpp` (`6800` for
+   * 0.68.0).
+   */
+  firmwareVersion: number;
+
+  /**
+   * ROM cartridge registration number (`Pc`), usually `0`.
+   */
+  romCartridge: number;
+
+  /**
+   * Best-effort emulator family for well-known type ids, or `undefined`
+   * when the id is not recognised.
+   */
+  family: TerminalFamily | undefined;
+}
+
+/**
+ * Map a DA2 type id and version to a known emulator family.
+ *
+ * The mapping is heuristic: several emulators impersonate xterm or VTE, and
+ * xterm's type id changes with its `decTerminalID` resource. The generic
+ * VT220 id `1` is not mapped: VTE before 0.54 used it, but so do kitty
+ * (`1;4000;<n>`) and others, and the version ranges overlap.
+ *
+ * @param terminalType - DA2 `Pp` parameter
+ * @returns The matching family, or `undefined`
+ *
+ * @internal
+ */
+function identifyTerminalFamily(
+  terminalType: number,
+): TerminalFamily | undefined {
+  switch (terminalType) {
+    case 41:
+      return "xterm";
+    case 65:
+      return "vte";
+    case 77:
+      return "mintty";
+    case 83:
+      return "screen";
+    case 84:
+      return "tmux";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Secondary Device Attributes detection feature (DA2).
+ *
+ * Queries the terminal type and firmware version. Unlike XTVERSION, DA2 is
+ * answered by nearly every emulator and multiplexer, so it is useful for
+ * identification when `terminalName` is unavailable.
+ *
+ * **Query sequence:** `ESC [ > c`
+ *
+ * **Response format:** `ESC [ > <Pp> ; <Pv> ; <Pc> c`
+ * - `Pp` is the terminal type id
+ * - `Pv` is the firmware version
+ * - `Pc` is the ROM cartridge registration number
+ *
+ * @example
+ * ```typescript
+ * import { SecondaryDeviceAttributesFeature } from "tinky-termcap";
+ *
+ * const match = "\x1b[>84;0;0c".match(
+ *   SecondaryDeviceAttributesFeature.responseRegex,
+ * );
+ * if (match) {
+ *   SecondaryDeviceAttributesFeature.parse(match, undefined)?.family; // "tmux"
+ * }
+ * ```
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Functions-using-CSI-_-ordered-by-the-final-character_s_
+ */
+export const SecondaryDeviceAttributesFeature: TermcapFeature<
+  "secondaryDeviceAttributes",
+  SecondaryDeviceAttributes | undefined
+> = {
+  key: "secondaryDeviceAttributes",
+  query: `${ESC}[>c`,
+  responseRegex: new RegExp(`${ESC}\\[>(\\d+);(\\d+)(?:;(\\d+))?c`),
+  defaultValue: undefined,
+  parse: (match) => {
+    const terminalType = parseInt(match[1], 10);
+    const firmwareVersion = parseInt(match[2], 10);
+    return {
+      terminalType,
+      firmwareVersion,
+      romCartridge: match[3] ? parseInt(match[3], 10) : 0,
+      family: identifyTerminalFamily(terminalType),
+    };
+  },
+};
+
+/**
+ * Decoded Tertiary Device Attributes (DA3) response.
+ */
+export interface TertiaryDeviceAttributes {
+  /**
+   * Terminal unit id as reported, typically 8 hex digits (xterm reports
+   * `"00000000"`).
+   */
+  unitId: string;
+}
+
+/**
+ * Tertiary Device Attributes detection feature (DA3).
+ *
+ * Queries the terminal unit id. Few emulators answer this query; when they
+ * do, the id can help tell apart otherwise identical DA2 responses.
+ *
+ * **Query sequence:** `ESC [ = c`
+ *
+ * **Response format:** `DCS ! | <unit-id> ST`
+ * - `unit-id` is a string of hex digits
+ *
+ * @example
+ * ```typescript
+ * import { TertiaryDeviceAttributesFeature } from "tinky-termcap";
+ *
+ * const match = "\x1bP!|7E565445\x1b\\".match(
+ *   TertiaryDeviceAttributesFeature.responseRegex,
+ * );
+ * if (match) {
+ *   TertiaryDeviceAttributesFeature.parse(match, undefined)?.unitId; // "7E565445"
+ * }
+ * ```
+ *
+ * @see https://vt100.net/docs/vt510-rm/DA3.html
+ */
+export const TertiaryDeviceAttributesFeature: TermcapFeature<
+  "tertiaryDeviceAttributes",
+  TertiaryDeviceAttributes | undefined
+> = {
+  key: "tertiaryDeviceAttributes",
+  query: `${ESC}[=c`,
+  responseRegex: new RegExp(`${ESC}P!\\|([0-9a-fA-F]*)(${ESC}\\\\|\\x07)`),
+  defaultValue: undefined,
+  parse: (match) => ({ unitId: match[1] }),
 };
 
 /**
@@ -266,7 +1346,245 @@ export const DeviceAttributesFeature: TermFeature = {
  *
  * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Functions-using-CSI-_-Desktop-Notification
  */
-export const ModifyOtherKeysFeature: TermFeature = {
+export const ModifyOtherKeysFeature: TermcapFeature<
+  "modifyOtherKeys",
+  boolean
+> = {
+  key: "modifyOtherKeys",
   query: `${ESC}[>4;?m`,
   responseRegex: new RegExp(`${ESC}\\[>4;(\\d+)m`),
+  defaultValue: false,
+  parse: (match) => parseInt(match[1], 10) >= 2,
 };
+
+/**
+ * modifyOtherKeys level detection feature.
+ *
+ * Shares its query with {@link ModifyOtherKeysFeature} (the query is only
+ * sent once) and reports the raw level: `0` (disabled), `1` (only keys
+ * without a well-known behavior are modified) or `2` (all keys). Remains
+ * `undefined` when the terminal does not answer.
+ *
+ * **Query sequence:** `ESC [ > 4 ; ? m`
+ *
+ * **Response format:** `ESC [ > 4 ; <level> m`
+ *
+ * @example
+ * ```typescript
+ * import { ModifyOtherKeysLevelFeature } from "tinky-termcap";
+ *
+ * const match = "\x1b[>4;1m".match(ModifyOtherKeysLevelFeature.responseRegex);
+ * if (match) {
+ *   ModifyOtherKeysLevelFeature.parse(match, undefined); // 1
+ * }
+ * ```
+ */
+export const ModifyOtherKeysLevelFeature: TermcapFeature<
+  "modifyOtherKeysLevel",
+  number | undefined
+> = {
+  key: "modifyOtherKeysLevel",
+  query: ModifyOtherKeysFeature.query,
+  responseRegex: ModifyOtherKeysFeature.responseRegex,
+  defaultValue: undefined,
+  parse: (match) => parseInt(match[1], 10),
+};
+
+/**
+ * Terminfo capabilities reported by XTGETTCAP, keyed by capability name.
+ *
+ * - a string - the capability's value; numeric capabilities such as
+ *   `colors` are reported as their decimal string (`"256"`)
+ * - `true` - a boolean capability the terminal has (e.g. `Tc`)
+ * - `false` - the terminal rejected the name as unknown or invalid
+ *
+ * Capabilities the terminal did not answer for are absent.
+ */
+export type TerminfoCapabilities = Partial<Record<string, string | boolean>>;
+
+/**
+ * Terminfo capabilities queried by default with XTGETTCAP.
+ *
+ * - `Tc`, `RGB` - truecolor support (tmux and ncurses conventions)
+ * - `Smulx`, `Setulc` - styled and colored underlines
+ * - `colors` - number of colors
+ * - `Ms` - OSC 52 clipboard sequence
+ * - `Ss` - cursor shape sequence (DECSCUSR)
+ */
+export const TERMINFO_CAPABILITIES = [
+  "Tc",
+  "RGB",
+  "Smulx",
+  "Setulc",
+  "colors",
+  "Ms",
+  "Ss",
+] as const;
+
+/**
+ * Hex-encode a capability name for XTGETTCAP, e.g. `Tc` as `5463`.
+ *
+ * @param name - Terminfo capability name
+ * @returns Lowercase hex encoding of the name's bytes
+ */
+export function encodeTerminfoName(name: string): string {
+  return Buffer.from(name, "utf8").toString("hex");
+}
+
+/**
+ * Regex source matching `hex` in either case.
+ *
+ * @internal
+ */
+function caseInsensitiveHex(hex: string): string {
+  return hex.replace(/[a-f]/g, (digit) => `[${digit}${digit.toUpperCase()}]`);
+}
+
+/**
+ * Create XTGETTCAP probes for terminfo capabilities, one per name.
+ *
+ * The terminal answers from its own terminfo description, which is more
+ * reliable than the local terminfo database: `TERM` is often a generic
+ * value such as `xterm-256color`, or describes another machine over SSH.
+ * All probes share the `terminfo` key, so their results are collected in
+ * one {@link TerminfoCapabilities} map. Supported by xterm, kitty, foot
+ * and WezTerm, among others.
+ *
+ * **Query sequence:** `ESC P + q <hex name> ESC \`
+ *
+ * **Response format:** `ESC P <status> + r <hex name> [= <hex value>] ESC \`
+ * - `status` is `1` if the capability is defined, `0` otherwise
+ * - the value is absent for boolean capabilities
+ *
+ * @param names - Capability names to probe
+ * @returns One feature per name
+ *
+ * @example Probing the cursor style reset sequence
+ * ```typescript
+ * const caps = await detectTermcap(stdin, stdout, 1000, createTerminfoFeatures(["Se"]));
+ * caps.terminfo?.Se; // e.g. "\x1b[2 q"
+ * ```
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Device-Control-functions
+ */
+export function createTerminfoFeatures(
+  names: readonly string[],
+): TermcapFeature<"terminfo", TerminfoCapabilities | undefined>[] {
+  return names.map((name) => {
+    const hex = encodeTerminfoName(name);
+    return {
+      key: "terminfo",
+      query: `${ESC}P+q${hex}${ESC}\\`,
+      responseRegex: new RegExp(
+        `${ESC}P([01])\\+r${caseInsensitiveHex(hex)}(?:=([0-9a-fA-F]*))?(?:${ESC}\\\\|\\x07)`,
+      ),
+      defaultValue: undefined,
+      parse: (match, current) => {
+        const [, status, value] = match;
+        let result: string | boolean = status === "1";
+        if (result && value !== undefined) {
+          // An odd number of digits cannot be decoded
+          result =
+            value.length % 2 === 0
+              ? Buffer.from(value, "hex").toString("utf8")
+              : false;
+        }
+        return { ...current, [name]: result };
+      },
+    };
+  });
+}
+
+/**
+ * XTGETTCAP probes for {@link TERMINFO_CAPABILITIES}, part of
+ * {@link EXTENDED_FEATURES}.
+ */
+export const TerminfoFeatures = createTerminfoFeatures(TERMINFO_CAPABILITIES);
+
+/**
+ * OSC 52 clipboard detection feature (XTGETTCAP).
+ *
+ * Asks the terminal for its `Ms` terminfo capability, the sequence that
+ * sets the selection. Terminals that define it accept OSC 52 writes.
+ * Part of {@link EXTENDED_FEATURES}; without it, `detectTermcap` reports
+ * clipboard support from DA1 attribute `52`, for terminals known to
+ * implement OSC 52 and from the local terminfo entry.
+ *
+ * **Query sequence:** `ESC P + q 4d73 ESC \` (`4d73` is `Ms` in hex)
+ *
+ * **Response format:** `ESC P <status> + r 4d73 [= <value>] ESC \`
+ * - `status` is `1` if the capability is defined, `0` otherwise
+ *
+ * @see https://invisible-island.net/xterm/ctlseqs/ctlseqs.html#h3-Device-Control-functions
+ */
+export const ClipboardFeature: TermcapFeature<"clipboard", boolean> = {
+  key: "clipboard",
+  query: `${ESC}P+q${encodeTerminfoName("Ms")}${ESC}\\`,
+  responseRegex: new RegExp(
+    `${ESC}P([01])\\+r4[dD]73(?:=[0-9a-fA-F]*)?(?:${ESC}\\\\|\\x07)`,
+  ),
+  defaultValue: false,
+  parse: (match) => match[1] === "1",
+};
+
+/**
+ * Features queried by `detectTermcap` by default, in query order.
+ *
+ * {@link DeviceAttributesFeature} is not part of this list: it is always
+ * sent last as the detection sentinel, after the built-in and any custom
+ * features, and its decoded value is reported as `deviceAttributes`.
+ *
+ * @example Inspecting the built-in queries
+ * ```typescript
+ * import { BUILTIN_FEATURES } from "tinky-termcap";
+ *
+ * for (const feature of BUILTIN_FEATURES) {
+ *   console.log(feature.key, JSON.stringify(feature.query));
+ * }
+ * ```
+ */
+export const BUILTIN_FEATURES = [
+  KittyFeature,
+  KittyKeyboardFlagsFeature,
+  Osc11Feature,
+  Osc10Feature,
+  Osc12Feature,
+  ...Osc4Features,
+  TerminalNameFeature,
+  ModifyOtherKeysFeature,
+  ModifyOtherKeysLevelFeature,
+  SecondaryDeviceAttributesFeature,
+  ColorSchemeUpdatesFeature,
+] as const;
+
+/**
+ * Additional features that `detectTermcap` only queries when asked to.
+ *
+ * Some terminals print these queries literally instead of ignoring them, so
+ * they are not part of {@link BUILTIN_FEATURES}. Pass them in `features`
+ * (or the `features` prop of `TermcapProvider`) to query them alongside the
+ * built-in set. Capabilities that are not queried keep their defaults.
+ *
+ * @example Querying the extended set as well
+ * ```typescript
+ * import { EXTENDED_FEATURES, detectTermcap } from "tinky-termcap";
+ *
+ * const caps = await detectTermcap(
+ *   process.stdin,
+ *   process.stdout,
+ *   1000,
+ *   EXTENDED_FEATURES,
+ * );
+ * console.log(caps.tertiaryDeviceAttributes?.unitId);
+ * ```
+ */
+export const EXTENDED_FEATURES = [
+  TertiaryDeviceAttributesFeature,
+  ColorDepthFeature,
+  KittyGraphicsFeature,
+  SixelColorRegistersFeature,
+  SixelGeometryFeature,
+  ...ModeFeatures,
+  ...TerminfoFeatures,
+  ClipboardFeature,
+] as const;
@@ -0,0 +1,312 @@
+/**
+ * @fileoverview On-disk cache of detected capabilities.
+ *
+ * Detection can take up to `DEFAULT_DETECTION_TIMEOUT` when a terminal does
+ * not answer every query, which is noticeable for short-lived commands.
+ * This module stores the last detection result per terminal so the next
+ * run can start from it and revalidate in the background.
+ *
+ * Entries are keyed by terminal identity: `TERM`, `TERM_PROGRAM`, the tty
+ * device and the terminal's self-reported name (XTVERSION). The environment
+ * and the tty are inherited by everything started from a shell, e.g. an
+ * emulator launched from another one, so only the XTVERSION reply confirms
+ * that a cached entry belongs to the terminal actually attached.
+ * {@link findTermcapCache} looks an entry up before that reply is known, for
+ * callers that start from it and replace it once detection has finished.
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   detectTermcap,
+ *   getTerminalIdentity,
+ *   queryFeatures,
+ *   readTermcapCache,
+ *   TerminalNameFeature,
+ *   writeTermcapCache,
+ * } from "tinky-termcap";
+ *
+ * const { terminalName } = await queryFeatures(
+ *   process.stdin,
+ *   process.stdout,
+ *   200,
+ *   [TerminalNameFeature],
+ * );
+ * const identity = {
+ *   ...getTerminalIdentity(process.stdin),
+ *   xtversion: terminalName,
+ * };
+ * const cached = readTermcapCache(identity);
+ * if (cached) {
+ *   startApp(cached);
+ * }
+ *
+ * const caps = await detectTermcap(process.stdin, process.stdout);
+ * writeTermcapCache(identity, caps);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import {
+  fstatSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { type ReadStream } from "tinky";
+import { type TermcapInfo } from "./detect-termcap.js";
+
+/**
+ * Format version of the cache file. Files with another version are
+ * ignored and overwritten.
+ *
+ * @internal
+ */
+const CACHE_VERSION = 2;
+
+/**
+ * Maximum number of terminals kept in the cache file. The least recently
+ * written entries are dropped first.
+ *
+ * @internal
+ */
+const MAX_ENTRIES = 32;
+
+/**
+ * Identity of the terminal a cache entry belongs to.
+ */
+export interface TerminalIdentity {
+  /** `TERM` environment variable. */
+  term?: string;
+
+  /** `TERM_PROGRAM` environment variable. */
+  termProgram?: string;
+
+  /** Device number of the tty stdin is attached to. */
+  tty?: string;
+
+  /**
+   * The terminal's XTVERSION reply, e.g. `"kitty(0.31.0)"`. Only known after
+   * querying the terminal with `TerminalNameFeature`, so
+   * {@link getTerminalIdentity} leaves it out; `undefined` for terminals
+   * that do not answer the query.
+   */
+  xtversion?: string;
+}
+
+/**
+ * A cached detection result.
+ *
+ * @internal
+ */
+interface CacheEntry {
+  time: number;
+  info: Omit<TermcapInfo, "isReady" | "diagnostics">;
+}
+
+/**
+ * Contents of the cache file.
+ *
+ * @internal
+ */
+interface CacheFile {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Identify the terminal `stdin` is attached to.
+ *
+ * The result does not include `xtversion`, which requires querying the
+ * terminal; add it before looking up the cache.
+ *
+ * @param stdin - Input stream. Its tty device distinguishes terminal
+ *   windows running the same emulator.
+ * @param env - Environment to read. Defaults to `process.env`.
+ * @returns The terminal identity
+ *
+ * @example
+ * ```typescript
+ * getTerminalIdentity(process.stdin);
+ * // { term: "xterm-256color", termProgram: "WezTerm", tty: "34817" }
+ * ```
+ */
+export function getTerminalIdentity(
+  stdin?: ReadStream,
+  env: Record<string, string | undefined> = process.env,
+): TerminalIdentity {
+  const identity: TerminalIdentity = {
+    term: env.TERM,
+    termProgram: env.TERM_PROGRAM,
+  };
+
+  const { fd } = (stdin ?? {}) as { fd?: unknown };
+  if (stdin?.isTTY && typeof fd === "number") {
+    try {
+      identity.tty = String(fstatSync(fd).rdev);
+    } catch {
+      // Not a file descriptor we can inspect
+    }
+  }
+  return identity;
+}
+
+/**
+ * Default location of the cache file:
+ * `$XDG_CACHE_HOME/tinky-termcap/termcap.json`, falling back to
+ * `~/.cache` when `XDG_CACHE_HOME` is not set.
+ *
+ * @param env - Environment to read. Defaults to `process.env`.
+ * @returns Absolute path of the cache file
+ */
+export function getTermcapCachePath(
+  env: Record<string, string | undefined> = process.env,
+): string {
+  const base = env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "tinky-termcap", "termcap.json");
+}
+
+/**
+ * Cache key of a terminal identity.
+ *
+ * @internal
+ */
+function toKey(identity: TerminalIdentity): string {
+  return JSON.stringify([
+    identity.term ?? "",
+    identity.termProgram ?? "",
+    identity.tty ?? "",
+    identity.xtversion ?? "",
+  ]);
+}
+
+/**
+ * Load the cache file, ignoring missing, unreadable and outdated files.
+ *
+ * @internal
+ */
+function load(path: string): CacheFile {
+  try {
+    const file = JSON.parse(readFileSync(path, "utf8")) as Partial<CacheFile>;
+    if (
+      file.version === CACHE_VERSION &&
+      typeof file.entries === "object" &&
+      file.entries !== null
+    ) {
+      return { version: CACHE_VERSION, entries: file.entries };
+    }
+  } catch {
+    // Start with an empty cache
+  }
+  return { version: CACHE_VERSION, entries: {} };
+}
+
+/**
+ * Read the cached capabilities of a terminal.
+ *
+ * @param identity - Terminal to look up, see {@link getTerminalIdentity}
+ * @param path - Cache file. Defaults to {@link getTermcapCachePath}.
+ * @returns The cached capabilities with `isReady: true`, or `undefined` if
+ *   the terminal is not in the cache
+ */
+export function readTermcapCache(
+  identity: TerminalIdentity,
+  path: string = getTermcapCachePath(),
+): TermcapInfo | undefined {
+  const entry = load(path).entries[toKey(identity)] as CacheEntry | undefined;
+  if (!entry?.info) {
+    return undefined;
+  }
+  return { ...entry.info, isReady: true };
+}
+
+/**
+ * Find the most recently cached capabilities for a terminal whose XTVERSION
+ * reply is not known yet.
+ *
+ * Matches `identity` on `TERM`, `TERM_PROGRAM` and the tty device only, so
+ * the entry may belong to another emulator started from the same shell.
+ * Use it to render something useful immediately and replace it with the
+ * result of detection.
+ *
+ * @param identity - Terminal to look up, see {@link getTerminalIdentity}.
+ *   `xtversion` is ignored.
+ * @param path - Cache file. Defaults to {@link getTermcapCachePath}.
+ * @returns The cached capabilities with `isReady: true`, or `undefined` if
+ *   no entry matches
+ *
+ * @example
+ * ```typescript
+ * const cached = findTermcapCache(getTerminalIdentity(process.stdin));
+ * if (cached) {
+ *   startApp(cached);
+ * }
+ * ```
+ */
+export function findTermcapCache(
+  identity: TerminalIdentity,
+  path: string = getTermcapCachePath(),
+): TermcapInfo | undefined {
+  // Keys of the same terminal only differ in their last field, XTVERSION
+  const prefix = toKey({ ...identity, xtversion: "" }).slice(0, -'""]'.length);
+  let latest: CacheEntry | undefined;
+  for (const [key, entry] of Object.entries(load(path).entries)) {
+    if (
+      key.startsWith(prefix) &&
+      entry?.info &&
+      (!latest || entry.time >= latest.time)
+    ) {
+      latest = entry;
+    }
+  }
+  return latest ? { ...latest.info, isReady: true } : undefined;
+}
+
+/**
+ * Store the capabilities of a terminal.
+ *
+ * The file is replaced atomically, so concurrent readers never see a
+ * partial write. Failures (e.g. a read-only home directory) are ignored:
+ * the cache only speeds up detection.
+ *
+ * @param identity - Terminal the capabilities belong to
+ * @param info - Detected capabilities. `isReady` and `diagnostics` are not
+ *   stored.
+ * @param path - Cache file. Defaults to {@link getTermcapCachePath}.
+ */
+export function writeTermcapCache(
+  identity: TerminalIdentity,
+  info: TermcapInfo,
+  path: string = getTermcapCachePath(),
+): void {
+  const values: Partial<TermcapInfo> = { ...info };
+  delete values.isReady;
+  delete values.diagnostics;
+
+  const { entries } = load(path);
+  entries[toKey(identity)] = {
+    time: Date.now(),
+    info: values as CacheEntry["info"],
+  };
+
+  const file: CacheFile = {
+    version: CACHE_VERSION,
+    entries: Object.fromEntries(
+      Object.entries(entries)
+        .sort(([, a], [, b]) => b.time - a.time)
+        .slice(0, MAX_ENTRIES),
+    ),
+  };
+
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    const temporary = `${path}.${process.pid}.tmp`;
+    writeFileSync(temporary, JSON.stringify(file));
+    renameSync(temporary, path);
+  } catch {
+    // Caching is best-effort
+  }
+}
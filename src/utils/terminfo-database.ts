@@ -0,0 +1,474 @@
+/**
+ * @fileoverview Reader for the local terminfo database.
+ *
+ * When the terminal does not answer queries (output is not interactive,
+ * the multiplexer swallows them, or the timeout expires), the compiled
+ * terminfo entry for `$TERM` still describes what the terminal is
+ * expected to support. This module finds that entry in the standard
+ * directories and parses the compiled format written by ncurses' `tic`:
+ * the legacy format with 16-bit numbers, the extended format with 32-bit
+ * numbers, and the extended capabilities section (e.g. `Tc`, `RGB`,
+ * `Smulx`).
+ *
+ * @example
+ * ```typescript
+ * import { readTerminfo } from "tinky-termcap";
+ *
+ * const entry = readTerminfo("xterm-256color");
+ * entry?.numbers.colors; // 256
+ * entry?.strings.smul; // "\x1b[4m"
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { type TerminfoCapabilities } from "./term-features.js";
+
+/**
+ * Magic number of the legacy format, with 16-bit numbers.
+ *
+ * @internal
+ */
+const LEGACY_MAGIC = 0o432;
+
+/**
+ * Magic number of the extended format, with 32-bit numbers.
+ *
+ * @internal
+ */
+const EXTENDED_NUMBERS_MAGIC = 0o1036;
+
+/**
+ * Size in bytes of the extended capabilities header: five 16-bit integers.
+ *
+ * @internal
+ */
+const EXTENDED_HEADER_SIZE = 10;
+
+/**
+ * Standard boolean capability names, in file order.
+ *
+ * @internal
+ */
+const BOOLEAN_NAMES = `
+  bw am xsb xhp xenl eo gn hc km hs in da db mir msgr os eslok xt hz ul xon
+  nxon mc5i chts nrrmc npc ndscr ccc bce hls xhpa crxm daisy xvpa sam cpix
+  lpix OTbs OTns OTnc OTMT OTNL OTpt OTxr
+`
+  .split(/\s+/)
+  .filter(Boolean);
+
+/**
+ * Standard numeric capability names, in file order.
+ *
+ * @internal
+ */
+const NUMBER_NAMES = `
+  cols it lines lm xmc pb vt wsl nlab lh lw ma wnum colors pairs ncv bufsz
+  spinv spinh maddr mjump mcs mls npins orc orl orhi orvi cps widcs btns
+  bitwin bitype OTug OTdC OTdN OTdB OTdT OTkn
+`
+  .split(/\s+/)
+  .filter(Boolean);
+
+/**
+ * Standard string capability names, in file order.
+ *
+ * @internal
+ */
+const STRING_NAMES = `
+  cbt bel cr csr tbc clear el ed hpa cmdch cup cud1 home civis cub1 mrcup
+  cnorm cuf1 ll cuu1 cvvis dch1 dl1 dsl hd smacs blink bold smcup smdc dim
+  smir invis prot rev smso smul ech rmacs sgr0 rmcup rmdc rmir rmso rmul
+  flash ff fsl is1 is2 is3 if ich1 il1 ip kbs ktbc kclr kctab kdch1 kdl1
+  kcud1 krmir kel ked kf0 kf1 kf10 kf2 kf3 kf4 kf5 kf6 kf7 kf8 kf9 khome
+  kich1 kil1 kcub1 kll knp kpp kcuf1 kind kri khts kcuu1 rmkx smkx lf0 lf1
+  lf10 lf2 lf3 lf4 lf5 lf6 lf7 lf8 lf9 rmm smm nel pad dch dl cud ich indn
+  il cub cuf rin cuu pfkey pfloc pfx mc0 mc4 mc5 rep rs1 rs2 rs3 rf rc vpa
+  sc ind ri sgr hts wind ht tsl uc hu iprog ka1 ka3 kb2 kc1 kc3 mc5p rmp
+  acsc pln kcbt smxon rmxon smam rmam xonc xoffc enacs smln rmln kbeg kcan
+  kclo kcmd kcpy kcrt kend kent kext kfnd khlp kmrk kmsg kmov knxt kopn kopt
+  kprv kprt krdo kref krfr krpl krst kres ksav kspd kund kBEG kCAN kCMD kCPY
+  kCRT kDC kDL kslt kEND kEOL kEXT kFND kHLP kHOM kIC kLFT kMSG kMOV kNXT
+  kOPT kPRV kPRT kRDO kRPL kRIT kRES kSAV kSPD kUND rfi kf11 kf12 kf13 kf14
+  kf15 kf16 kf17 kf18 kf19 kf20 kf21 kf22 kf23 kf24 kf25 kf26 kf27 kf28 kf29
+  kf30 kf31 kf32 kf33 kf34 kf35 kf36 kf37 kf38 kf39 kf40 kf41 kf42 kf43 kf44
+  kf45 kf46 kf47 kf48 kf49 kf50 kf51 kf52 kf53 kf54 kf55 kf56 kf57 kf58 kf59
+  kf60 kf61 kf62 kf63 el1 mgc smgl smgr fln sclk dclk rmclk cwin wingo hup
+  dial qdial tone pulse hook pause wait u0 u1 u2 u3 u4 u5 u6 u7 u8 u9 op oc
+  initc initp scp setf setb cpi lpi chr cvr defc swidm sdrfq sitm slm smicm
+  snlq snrmq sshm ssubm ssupm sum rwidm ritm rlm rmicm rshm rsubm rsupm rum
+  mhpa mcud1 mcub1 mcuf1 mvpa mcuu1 porder mcud mcub mcuf mcuu scs smgb
+  smgbp smglp smgrp smgt smgtp sbim scsd rbim rcsd subcs supcs docr zerom
+  csnm kmous minfo reqmp getm setaf setab pfxl devt csin s0ds s1ds s2ds s3ds
+  smglr smgtb birep binel bicr colornm defbi endbi setcolor slines dispc
+  smpch rmpch smsc rmsc pctrm scesc scesa ehhlm elhlm elohlm erhlm ethlm
+  evhlm sgr1 slength OTi2 OTrs OTnl OTbc OTko OTma OTG2 OTG3 OTG1 OTG4 OTGR
+  OTGL OTGU OTGD OTGH OTGV OTGC meml memu box1
+`
+  .split(/\s+/)
+  .filter(Boolean);
+
+/**
+ * System directories searched after the user's, as in ncurses.
+ *
+ * @internal
+ */
+const SYSTEM_TERMINFO_DIRS = [
+  "/etc/terminfo",
+  "/lib/terminfo",
+  "/usr/share/terminfo",
+];
+
+/**
+ * A parsed terminfo entry.
+ *
+ * Capabilities are keyed by their short name (`colors`, `smul`, `Tc`).
+ * Absent and cancelled capabilities are omitted.
+ */
+export interface TerminfoEntry {
+  /** Terminal names, e.g. `["xterm-256color", "xterm with 256 colors"]`. */
+  names: string[];
+
+  /** Boolean capabilities the terminal has. */
+  booleans: Record<string, boolean>;
+
+  /** Numeric capabilities. */
+  numbers: Record<string, number>;
+
+  /** String capabilities, with escapes already decoded. */
+  strings: Record<string, string>;
+}
+
+/**
+ * Bounds-checked little-endian reader over a compiled entry.
+ *
+ * @internal
+ */
+interface EntryReader {
+  /** Current position in bytes. */
+  readonly offset: number;
+  int16(): number;
+  int32(): number;
+  byte(): number;
+  bytes(size: number): Buffer;
+  /** Skip a padding byte so the next section starts at an even offset. */
+  align(): void;
+}
+
+/**
+ * Create a reader over `data`, starting at its first byte.
+ *
+ * @internal
+ */
+function createReader(data: Buffer): EntryReader {
+  let offset = 0;
+  const take = (size: number) => {
+    if (offset + size > data.length) {
+      throw new Error("Truncated terminfo entry");
+    }
+    const start = offset;
+    offset += size;
+    return start;
+  };
+
+  return {
+    get offset() {
+      return offset;
+    },
+    int16: () => data.readInt16LE(take(2)),
+    int32: () => data.readInt32LE(take(4)),
+    byte: () => data[take(1)],
+    bytes: (size) => {
+      const start = take(size);
+      return data.subarray(start, start + size);
+    },
+    align: () => {
+      if (offset % 2 === 1 && offset < data.length) {
+        offset += 1;
+      }
+    },
+  };
+}
+
+/**
+ * Read the NUL-terminated string at `offset` of `table`.
+ *
+ * @internal
+ */
+function readString(table: Buffer, offset: number): string | undefined {
+  if (offset < 0 || offset >= table.length) {
+    return undefined;
+  }
+  const end = table.indexOf(0, offset);
+  return table.toString("utf8", offset, end === -1 ? table.length : end);
+}
+
+/**
+ * Parse a compiled terminfo entry.
+ *
+ * Both the legacy (16-bit numbers) and the extended (32-bit numbers)
+ * formats are supported, including the extended capabilities section
+ * that follows the standard capabilities.
+ *
+ * @param data - Contents of a compiled terminfo file
+ * @returns The parsed entry
+ *
+ * @throws Error if `data` is not a compiled terminfo entry or is truncated
+ *
+ * @example
+ * ```typescript
+ * const entry = parseTerminfo(readFileSync("/usr/share/terminfo/x/xterm"));
+ * entry.booleans.am; // true
+ * ```
+ */
+export function parseTerminfo(data: Uint8Array): TerminfoEntry {
+  const reader = createReader(
+    Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+  );
+
+  const magic = reader.int16();
+  if (magic !== LEGACY_MAGIC && magic !== EXTENDED_NUMBERS_MAGIC) {
+    throw new Error("Not a compiled terminfo entry");
+  }
+  const readNumber =
+    magic === EXTENDED_NUMBERS_MAGIC
+      ? () => reader.int32()
+      : () => reader.int16();
+
+  const namesSize = reader.int16();
+  const booleanCount = reader.int16();
+  const numberCount = reader.int16();
+  const stringCount = reader.int16();
+  const tableSize = reader.int16();
+
+  const entry: TerminfoEntry = {
+    names: reader
+      .bytes(namesSize)
+      .toString("utf8")
+      .replace(/\0.*$/s, "")
+      .split("|"),
+    booleans: {},
+    numbers: {},
+    strings: {},
+  };
+
+  for (let i = 0; i < booleanCount; i++) {
+    const value = reader.byte();
+    if (value === 1 && BOOLEAN_NAMES[i]) {
+      entry.booleans[BOOLEAN_NAMES[i]] = true;
+    }
+  }
+  reader.align();
+
+  for (let i = 0; i < numberCount; i++) {
+    // Negative values mark absent (-1) and cancelled (-2) capabilities
+    const value = readNumber();
+    if (value >= 0 && NUMBER_NAMES[i]) {
+      entry.numbers[NUMBER_NAMES[i]] = value;
+    }
+  }
+
+  const offsets = Array.from({ length: stringCount }, () => reader.int16());
+  const table = reader.bytes(tableSize);
+  offsets.forEach((offset, i) => {
+    const value = readString(table, offset);
+    if (value !== undefined && STRING_NAMES[i]) {
+      entry.strings[STRING_NAMES[i]] = value;
+    }
+  });
+
+  reader.align();
+  if (reader.offset + EXTENDED_HEADER_SIZE <= data.byteLength) {
+    readExtended(reader, readNumber, entry);
+  }
+  return entry;
+}
+
+/**
+ * Parse the extended capabilities section into `entry`.
+ *
+ * Its string table holds the string values followed by the names of all
+ * extended capabilities; name offsets are relative to the first name.
+ *
+ * @internal
+ */
+function readExtended(
+  reader: EntryReader,
+  readNumber: () => number,
+  entry: TerminfoEntry,
+): void {
+  const booleanCount = reader.int16();
+  const numberCount = reader.int16();
+  const stringCount = reader.int16();
+  reader.int16(); // Number of strings in the table, values and names
+  const tableSize = reader.int16();
+
+  const booleans = Array.from({ length: booleanCount }, () => reader.byte());
+  reader.align();
+  const numbers = Array.from({ length: numberCount }, () => readNumber());
+  const valueOffsets = Array.from({ length: stringCount }, () =>
+    reader.int16(),
+  );
+  const nameOffsets = Array.from(
+    { length: booleanCount + numberCount + stringCount },
+    () => reader.int16(),
+  );
+  const table = reader.bytes(tableSize);
+
+  const values = valueOffsets.map((offset) => readString(table, offset));
+  const namesStart = Math.max(
+    0,
+    ...valueOffsets.map((offset, i) =>
+      values[i] === undefined
+        ? 0
+        : offset + Buffer.byteLength(values[i], "utf8") + 1,
+    ),
+  );
+  const names = nameOffsets.map((offset) =>
+    readString(table, namesStart + offset),
+  );
+
+  booleans.forEach((value, i) => {
+    const name = names[i];
+    if (value === 1 && name) {
+      entry.booleans[name] = true;
+    }
+  });
+  numbers.forEach((value, i) => {
+    const name = names[booleanCount + i];
+    if (value >= 0 && name) {
+      entry.numbers[name] = value;
+    }
+  });
+  values.forEach((value, i) => {
+    const name = names[booleanCount + numberCount + i];
+    if (value !== undefined && name) {
+      entry.strings[name] = value;
+    }
+  });
+}
+
+/**
+ * Directories searched for terminfo entries, in order.
+ *
+ * Follows ncurses: `$TERMINFO`, `~/.terminfo`, the entries of
+ * `$TERMINFO_DIRS` (an empty entry stands for the system directories),
+ * then `/etc/terminfo`, `/lib/terminfo` and `/usr/share/terminfo`.
+ *
+ * @param env - Environment to read. Defaults to `process.env`.
+ * @returns Directories to search, without duplicates
+ */
+export function getTerminfoSearchPath(
+  env: Record<string, string | undefined> = process.env,
+): string[] {
+  const dirs: string[] = [];
+  if (env.TERMINFO) {
+    dirs.push(env.TERMINFO);
+  }
+  dirs.push(join(env.HOME || homedir(), ".terminfo"));
+  for (const dir of env.TERMINFO_DIRS?.split(":") ?? []) {
+    dirs.push(...(dir ? [dir] : SYSTEM_TERMINFO_DIRS));
+  }
+  dirs.push(...SYSTEM_TERMINFO_DIRS);
+  return [...new Set(dirs)];
+}
+
+/**
+ * Locate the compiled entry for a terminal.
+ *
+ * Entries live in a subdirectory named after their first character
+ * (`x/xterm`), or after its hex code on case-insensitive file systems
+ * such as macOS (`78/xterm`).
+ *
+ * @param term - Terminal name, e.g. the value of `TERM`
+ * @param env - Environment to read. Defaults to `process.env`.
+ * @param fileExists - Checks for candidate files. Defaults to
+ *   `fs.existsSync`.
+ * @returns Path of the entry, or `undefined` if there is none
+ *
+ * @example
+ * ```typescript
+ * findTerminfoFile("xterm-256color");
+ * // "/usr/share/terminfo/x/xterm-256color"
+ * ```
+ */
+export function findTerminfoFile(
+  term: string,
+  env: Record<string, string | undefined> = process.env,
+  fileExists: (path: string) => boolean = existsSync,
+): string | undefined {
+  // Names with path separators could escape the terminfo directories
+  if (!term || term.includes("/") || term.startsWith(".")) {
+    return undefined;
+  }
+  const first = term[0];
+  const hex = first.charCodeAt(0).toString(16);
+  for (const dir of getTerminfoSearchPath(env)) {
+    for (const subdir of [first, hex]) {
+      const path = join(dir, subdir, term);
+      if (fileExists(path)) {
+        return path;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read and parse the terminfo entry for a terminal.
+ *
+ * @param term - Terminal name. Defaults to `TERM`.
+ * @param env - Environment to read. Defaults to `process.env`.
+ * @returns The parsed entry, or `undefined` if there is no entry or it
+ *   cannot be read or parsed
+ *
+ * @example
+ * ```typescript
+ * const entry = readTerminfo();
+ * const truecolor = entry?.booleans.Tc || entry?.booleans.RGB;
+ * ```
+ */
+export function readTerminfo(
+  term: string | undefined = process.env.TERM,
+  env: Record<string, string | undefined> = process.env,
+): TerminfoEntry | undefined {
+  const path = term ? findTerminfoFile(term, env) : undefined;
+  if (!path) {
+    return undefined;
+  }
+  try {
+    return parseTerminfo(readFileSync(path));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert an entry to the {@link TerminfoCapabilities} map reported by
+ * XTGETTCAP: booleans as `true`, numbers as decimal strings and strings
+ * as they are.
+ *
+ * @param entry - Parsed terminfo entry
+ * @returns The capabilities, keyed by short name
+ *
+ * @example
+ * ```typescript
+ * toTerminfoCapabilities(readTerminfo("xterm-256color")!).colors; // "256"
+ * ```
+ */
+export function toTerminfoCapabilities(
+  entry: TerminfoEntry,
+): TerminfoCapabilities {
+  const capabilities: TerminfoCapabilities = { ...entry.strings };
+  for (const [name, value] of Object.entries(entry.numbers)) {
+    capabilities[name] = String(value);
+  }
+  for (const name of Object.keys(entry.booleans)) {
+    capabilities[name] = true;
+  }
+  return capabilities;
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { PassThrough } from "node:stream";
+import { runCli } from "../src/utils/run-cli.js";
+import { TERMCAP_ENV_VARIABLES } from "../src/utils/env-termcap.js";
+
+/**
+ * Create streams for the CLI. `reply` answers what is written to the
+ * terminal; `undefined` leaves the query unanswered.
+ */
+function setup({
+  tty = true,
+  redirected = false,
+  reply = (): string | undefined => "\x1b[?62c",
+}: {
+  tty?: boolean;
+  redirected?: boolean;
+  reply?: (query: string) => string | undefined;
+} = {}) {
+  const stdin = Object.assign(new PassThrough(), {
+    isTTY: tty,
+    rawMode: [] as boolean[],
+    setRawMode(mode: boolean) {
+      stdin.rawMode.push(mode);
+      return stdin;
+    },
+  });
+  const output = { stdout: "", stderr: "" };
+  const createOutput = (name: "stdout" | "stderr", isTTY: boolean) => ({
+    isTTY,
+    write: (data: string) => {
+      output[name] += data;
+      const response = isTTY ? reply(data) : undefined;
+      if (response !== undefined) {
+        setTimeout(() => stdin.write(response), 5);
+      }
+      return true;
+    },
+  });
+  const streams = {
+    stdin: stdin as unknown as NodeJS.ReadStream,
+    stdout: createOutput(
+      "stdout",
+      tty && !redirected,
+    ) as unknown as NodeJS.WriteStream,
+    stderr: createOutput("stderr", tty) as unknown as NodeJS.WriteStream,
+  };
+  return { stdin, output, streams };
+}
+
+const originalEnv = process.env;
+beforeEach(() => {
+  process.env = Object.fromEntries(
+    Object.entries(originalEnv).filter(
+      ([name]) => !(TERMCAP_ENV_VARIABLES as readonly string[]).includes(name),
+    ),
+  );
+});
+afterEach(() => {
+  process.env = originalEnv;
+});
+
+describe("argument parsing", () => {
+  it("should reject unknown flags with exit code 2", async () => {
+    const { output, streams } = setup();
+
+    expect(await runCli(["--colour"], streams)).toBe(2);
+    expect(output.stderr).toContain("--colour");
+    expect(output.stderr).toContain("Usage: tinky-termcap");
+    expect(output.stdout).toBe("");
+  });
+
+  it.each(["abc", "0", "-5", ""])(
+    "should reject the timeout %j with exit code 2",
+    async (timeout) => {
+      const { stdin, output, streams } = setup();
+
+      expect(await runCli([`--timeout=${timeout}`], streams)).toBe(2);
+      expect(output.stderr).toBe(`Invalid timeout: ${timeout}\n`);
+      expect(stdin.rawMode).toEqual([]);
+    },
+  );
+
+  it("should print the usage for --help", async () => {
+    const { stdin, output, streams } = setup();
+
+    expect(await runCli(["-h"], streams)).toBe(0);
+    expect(output.stdout).toStartWith("Usage: tinky-termcap");
+    expect(stdin.rawMode).toEqual([]);
+  });
+});
+
+describe("output", () => {
+  it("should print a table", async () => {
+    const { output, streams } = setup({ tty: false });
+
+    expect(await runCli([], streams)).toBe(0);
+    expect(output.stdout).toStartWith("Capability");
+    expect(output.stderr).toContain("Not attached to a terminal");
+  });
+
+  it("should print JSON and query the terminal on stderr", async () => {
+    const { output, streams } = setup({
+      redirected: true,
+      reply: (query) =>
+        query.includes("\x1b[>q")
+          ? "\x1bP>|xterm(388)\x1b\\\x1b[?62c"
+          : "\x1b[?62c",
+    });
+
+    expect(await runCli(["--json", "--timeout", "500"], streams)).toBe(0);
+    const caps = JSON.parse(output.stdout) as Record<string, unknown>;
+    expect(caps.terminalName).toBe("xterm(388)");
+    expect(caps.diagnostics).toBeUndefined();
+    expect(output.stderr).toContain("\x1b[>q");
+  });
+
+  it("should include the diagnostics with --raw", async () => {
+    const { output, streams } = setup({ redirected: true });
+
+    expect(await runCli(["--json", "--raw"], streams)).toBe(0);
+    const caps = JSON.parse(output.stdout) as Record<string, unknown>;
+    expect(caps.diagnostics).toBeDefined();
+  });
+});
+
+describe("raw mode", () => {
+  it("should be restored after detection", async () => {
+    const { stdin, streams } = setup();
+
+    expect(await runCli([], streams)).toBe(0);
+    expect(stdin.rawMode).toEqual([true, false]);
+    expect(stdin.isPaused()).toBe(true);
+  });
+
+  it("should be restored when detection times out", async () => {
+    const { stdin, output, streams } = setup({ reply: () => undefined });
+
+    expect(await runCli(["--timeout", "50"], streams)).toBe(0);
+    expect(stdin.rawMode).toEqual([true, false]);
+    expect(output.stdout).toContain("Capability");
+  });
+
+  it("should be restored and exit with 130 on Ctrl+C", async () => {
+    const { stdin, streams } = setup({ reply: () => "\x03" });
+
+    expect(await runCli([], streams)).toBe(130);
+    expect(stdin.rawMode).toEqual([true, false]);
+    expect(stdin.listenerCount("data")).toBe(0);
+  });
+
+  it("should be restored and exit with 1 when detection fails", async () => {
+    const { stdin, output, streams } = setup();
+    const setRawMode = stdin.setRawMode;
+    stdin.setRawMode = (mode: boolean) => {
+      setRawMode(mode);
+      if (mode) {
+        throw new Error("EIO: i/o error, read");
+      }
+      return stdin;
+    };
+
+    expect(await runCli([], streams)).toBe(1);
+    expect(output.stderr).toBe("Detection failed: EIO: i/o error, read\n");
+    expect(stdin.rawMode).toEqual([true, false]);
+  });
+});
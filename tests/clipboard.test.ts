@@ -0,0 +1,97 @@
+import { describe, it, expect } from "bun:test";
+import { type ReadStream, type WriteStream } from "tinky";
+import { EventEmitter } from "node:events";
+import { readClipboard, writeClipboard } from "../src/utils/clipboard.js";
+
+function createStdout() {
+  const writes: string[] = [];
+  return {
+    writes,
+    stdout: {
+      write: (data: string) => {
+        writes.push(data);
+        return true;
+      },
+    },
+  };
+}
+
+function createTerminal(reply: (query: string) => string | undefined) {
+  const stdin = new EventEmitter() as EventEmitter & ReadStream;
+  const writes: string[] = [];
+  const stdout: WriteStream = {
+    write: (data: string) => {
+      writes.push(data);
+      const response = reply(data);
+      if (response !== undefined) {
+        setTimeout(() => stdin.emit("data", Buffer.from(response)), 5);
+      }
+      return true;
+    },
+  };
+  return { stdin, stdout, writes };
+}
+
+describe("writeClipboard", () => {
+  it("should write base64-encoded text with OSC 52", () => {
+    const { writes, stdout } = createStdout();
+
+    expect(writeClipboard(stdout, "héllo")).toBe(true);
+    expect(writes).toEqual(["\x1b]52;c;aMOpbGxv\x1b\\"]);
+  });
+
+  it("should write the primary selection", () => {
+    const { writes, stdout } = createStdout();
+
+    writeClipboard(stdout, "hi", { selection: "primary" });
+
+    expect(writes).toEqual(["\x1b]52;p;aGk=\x1b\\"]);
+  });
+
+  it("should refuse text above the size limit", () => {
+    const { writes, stdout } = createStdout();
+
+    expect(writeClipboard(stdout, "héllo", { maxBytes: 5 })).toBe(false);
+    expect(writeClipboard(stdout, "hello", { maxBytes: 5 })).toBe(true);
+    expect(writes).toHaveLength(1);
+  });
+
+  it("should wrap the sequence for tmux passthrough", () => {
+    const { writes, stdout } = createStdout();
+
+    writeClipboard(stdout, "hi", { multiplexer: "tmux" });
+
+    expect(writes).toEqual(["\x1bPtmux;\x1b\x1b]52;c;aGk=\x1b\x1b\\\x1b\\"]);
+  });
+
+  it("should return false without a stream", () => {
+    expect(writeClipboard(undefined, "hi")).toBe(false);
+  });
+});
+
+describe("readClipboard", () => {
+  it("should decode the reported clipboard", async () => {
+    const { stdin, stdout, writes } = createTerminal(
+      () => "\x1b]52;c;aMOpbGxv\x07",
+    );
+
+    expect(await readClipboard(stdin, stdout)).toBe("héllo");
+    expect(writes).toEqual(["\x1b]52;c;?\x1b\\"]);
+  });
+
+  it("should not pass the reply on as input", async () => {
+    const { stdin, stdout } = createTerminal(() => "\x1b]52;c;aGk=\x1b\\x");
+    const input: string[] = [];
+    stdin.on("data", (data) => input.push(String(data)));
+
+    await readClipboard(stdin, stdout);
+
+    expect(input).toEqual(["x"]);
+  });
+
+  it("should resolve to undefined when the terminal does not answer", async () => {
+    const { stdin, stdout } = createTerminal(() => undefined);
+
+    expect(await readClipboard(stdin, stdout, { timeout: 20 })).toBeUndefined();
+  });
+});
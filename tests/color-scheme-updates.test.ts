@@ -0,0 +1,57 @@
+import { describe, it, expect } from "bun:test";
+import { type ReadStream, type WriteStream } from "tinky";
+import {
+  DISABLE_COLOR_SCHEME_UPDATES,
+  ENABLE_COLOR_SCHEME_UPDATES,
+  watchColorScheme,
+} from "../src/utils/color-scheme-updates.js";
+import { EventEmitter } from "node:events";
+
+describe("watchColorScheme", () => {
+  it("should enable the mode and report scheme changes", () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    const written: string[] = [];
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written.push(data);
+        return true;
+      },
+    };
+    const schemes: string[] = [];
+    const input: string[] = [];
+    stdin.on("data", (data: Buffer) => input.push(data.toString()));
+
+    const stop = watchColorScheme(stdin, stdout, (scheme) => {
+      schemes.push(scheme);
+    });
+    stdin.emit("data", Buffer.from("\x1b[?997;2n"));
+    stdin.emit("data", Buffer.from("a\x1b[?997;1nb\x1b[?997;2n"));
+
+    expect(written).toEqual([ENABLE_COLOR_SCHEME_UPDATES]);
+    expect(schemes).toEqual(["light", "dark", "light"]);
+    expect(input).toEqual(["ab"]);
+
+    stop();
+    stdin.emit("data", Buffer.from("\x1b[?997;1n"));
+
+    expect(written).toEqual([
+      ENABLE_COLOR_SCHEME_UPDATES,
+      DISABLE_COLOR_SCHEME_UPDATES,
+    ]);
+    expect(schemes).toHaveLength(3);
+    expect(input).toEqual(["ab", "\x1b[?997;1n"]);
+  });
+
+  it("should ignore unrelated input", () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    const schemes: string[] = [];
+
+    const stop = watchColorScheme(stdin, undefined, (scheme) => {
+      schemes.push(scheme);
+    });
+    stdin.emit("data", Buffer.from("\x1b[?996n\x1b[?997;3n"));
+    stop();
+
+    expect(schemes).toEqual([]);
+  });
+});
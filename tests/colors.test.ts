@@ -0,0 +1,105 @@
+import { describe, it, expect } from "bun:test";
+import {
+  colorSchemeFromColorFgBg,
+  contrastRatio,
+  DEFAULT_ANSI_PALETTE,
+  getColorScheme,
+  isDarkColor,
+  nearestAnsiColor,
+  parseHexColor,
+  relativeLuminance,
+} from "../src/utils/colors.js";
+
+describe("parseHexColor", () => {
+  it("should parse 6-digit and 3-digit colors", () => {
+    expect(parseHexColor("#1a2b3c")).toEqual({ r: 26, g: 43, b: 60 });
+    expect(parseHexColor("f00")).toEqual({ r: 255, g: 0, b: 0 });
+  });
+
+  it("should reject invalid colors", () => {
+    expect(parseHexColor("red")).toBeUndefined();
+    expect(parseHexColor("#12345")).toBeUndefined();
+  });
+});
+
+describe("relativeLuminance", () => {
+  it("should range from black to white", () => {
+    expect(relativeLuminance("#000000")).toBe(0);
+    expect(relativeLuminance("#ffffff")).toBeCloseTo(1, 5);
+  });
+
+  it("should weight green above red above blue", () => {
+    const red = relativeLuminance("#ff0000");
+    const green = relativeLuminance("#00ff00");
+    const blue = relativeLuminance({ r: 0, g: 0, b: 255 });
+
+    expect(green).toBeGreaterThan(red);
+    expect(red).toBeGreaterThan(blue);
+  });
+
+  it("should throw on invalid colors", () => {
+    expect(() => relativeLuminance("nope")).toThrow("Invalid hex color");
+  });
+});
+
+describe("contrastRatio", () => {
+  it("should be 21 for black on white regardless of order", () => {
+    expect(contrastRatio("#000000", "#ffffff")).toBeCloseTo(21, 5);
+    expect(contrastRatio("#ffffff", "#000000")).toBeCloseTo(21, 5);
+  });
+
+  it("should be 1 for identical colors", () => {
+    expect(contrastRatio("#777777", "#777777")).toBe(1);
+  });
+});
+
+describe("isDarkColor", () => {
+  it("should classify common backgrounds", () => {
+    expect(isDarkColor("#1a1a1a")).toBe(true);
+    expect(isDarkColor("#002b36")).toBe(true);
+    expect(isDarkColor("#fdf6e3")).toBe(false);
+    expect(isDarkColor("#ffffff")).toBe(false);
+  });
+});
+
+describe("nearestAnsiColor", () => {
+  it("should match against the default palette", () => {
+    expect(nearestAnsiColor("#ff1010")).toBe(9);
+    expect(nearestAnsiColor("#010101")).toBe(0);
+    expect(DEFAULT_ANSI_PALETTE).toHaveLength(16);
+  });
+
+  it("should prefer detected palette entries", () => {
+    const palette = new Array<string | undefined>(16).fill(undefined);
+    palette[4] = "#268bd2";
+
+    expect(nearestAnsiColor("#2080d0", palette)).toBe(4);
+  });
+});
+
+describe("colorSchemeFromColorFgBg", () => {
+  it("should read the last field as the background", () => {
+    expect(colorSchemeFromColorFgBg("15;0")).toBe("dark");
+    expect(colorSchemeFromColorFgBg("0;15")).toBe("light");
+    expect(colorSchemeFromColorFgBg("0;default;7")).toBe("light");
+    expect(colorSchemeFromColorFgBg("7;8")).toBe("dark");
+  });
+
+  it("should be unknown for missing or invalid values", () => {
+    expect(colorSchemeFromColorFgBg(undefined)).toBe("unknown");
+    expect(colorSchemeFromColorFgBg("default;default")).toBe("unknown");
+    expect(colorSchemeFromColorFgBg("0;99")).toBe("unknown");
+  });
+});
+
+describe("getColorScheme", () => {
+  it("should prefer the detected background color", () => {
+    expect(getColorScheme("#ffffff", { COLORFGBG: "15;0" })).toBe("light");
+    expect(getColorScheme("#000000", { COLORFGBG: "0;15" })).toBe("dark");
+  });
+
+  it("should fall back to COLORFGBG", () => {
+    expect(getColorScheme(undefined, { COLORFGBG: "0;15" })).toBe("light");
+    expect(getColorScheme(undefined, {})).toBe("unknown");
+  });
+});
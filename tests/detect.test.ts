@@ -1,12 +1,68 @@
-import { describe, it, expect } from "bun:test";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+  expect,
+  mock,
+  spyOn,
+} from "bun:test";
 import { type ReadStream, type WriteStream } from "tinky";
 import {
   detectTermcap,
+  queryFeatures,
+  queryTermcap,
   DEFAULT_DETECTION_TIMEOUT,
   resetForTesting,
   type TermcapInfo,
 } from "../src/utils/detect-termcap.js";
+import {
+  BUILTIN_FEATURES,
+  createModeFeatures,
+  defineFeature,
+  DeviceAttributesFeature,
+  encodeTerminfoName,
+  EXTENDED_FEATURES,
+  KittyFeature,
+  isModeSupported,
+  Osc11Feature,
+  PRIVATE_MODES,
+  type TermcapFeature,
+  TerminfoFeatures,
+} from "../src/utils/term-features.js";
+import { TERMCAP_ENV_VARIABLES } from "../src/utils/env-termcap.js";
+import * as remoteSession from "../src/utils/remote-session.js";
 import { EventEmitter } from "node:events";
+import { PassThrough } from "node:stream";
+
+const ESC = "\x1b";
+
+// Keep the developer's terminal and session from leaking into detection
+// results, including container marker files on the host
+const originalEnv = process.env;
+const { getRemoteSession } = remoteSession;
+beforeEach(() => {
+  process.env = Object.fromEntries(
+    Object.entries(originalEnv).filter(
+      ([name]) => !(TERMCAP_ENV_VARIABLES as readonly string[]).includes(name),
+    ),
+  );
+  spyOn(remoteSession, "getRemoteSession").mockImplementation((env) =>
+    getRemoteSession(env, () => false),
+  );
+});
+afterEach(() => {
+  process.env = originalEnv;
+  mock.restore();
+});
+
+const CursorStyleFeature = defineFeature({
+  key: "cursorStyle",
+  query: "\x1bP$q q\x1b\\",
+  responseRegex: new RegExp(`${ESC}P1\\$r(\\d) q${ESC}\\\\`),
+  defaultValue: undefined as number | undefined,
+  parse: (match) => parseInt(match[1], 10),
+});
 
 describe("queryTerminalFeatures", () => {
   it("should return TermcapInfo with isReady: true", async () => {
@@ -79,6 +135,1129 @@ describe("queryTerminalFeatures", () => {
   });
 });
 
+describe("feature registry", () => {
+  it("should parse built-in features through the registry", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const stdout: WriteStream = {
+      write: () => {
+        setTimeout(() => {
+          stdin.emit(
+            "data",
+            Buffer.from(
+              "\x1b[?1u\x1b]11;rgb:ffff/0000/8080\x1b\\\x1b[>4;2m\x1b[?62;c",
+            ),
+          );
+        }, 10);
+        return true;
+      },
+    };
+
+    const result = await detectTermcap(stdin, stdout, 100);
+
+    expect(result.kittyProtocol).toBe(true);
+    expect(result.backgroundColor).toBe("#ff0080");
+    expect(result.modifyOtherKeys).toBe(true);
+    expect(result.terminalName).toBeUndefined();
+  });
+
+  it("should query custom features before the sentinel", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written += data;
+        setTimeout(() => {
+          stdin.emit("data", Buffer.from("\x1bP1$r4 q\x1b\\"));
+          stdin.emit("data", Buffer.from("\x1b[?62;c"));
+        }, 10);
+        return true;
+      },
+    };
+
+    const result = await detectTermcap(stdin, stdout, 100, [
+      CursorStyleFeature,
+    ]);
+
+    expect(result.cursorStyle).toBe(4);
+    expect(written).toBe(
+      [...new Set(BUILTIN_FEATURES.map((feature) => feature.query))].join("") +
+        CursorStyleFeature.query +
+        DeviceAttributesFeature.query,
+    );
+  });
+
+  it("should send a query shared by several features once", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written += data;
+        setTimeout(() => stdin.emit("data", Buffer.from("\x1b[?62c")), 10);
+        return true;
+      },
+    };
+
+    await detectTermcap(stdin, stdout, 100);
+
+    expect(written.split("\x1b[?u")).toHaveLength(2);
+  });
+
+  it("should only send the extended queries when asked to", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written += data;
+        return true;
+      },
+    };
+
+    await detectTermcap(stdin, stdout, 20);
+    for (const feature of EXTENDED_FEATURES) {
+      expect(written).not.toContain(feature.query);
+    }
+
+    written = "";
+    await detectTermcap(stdin, stdout, 20, EXTENDED_FEATURES);
+    for (const feature of EXTENDED_FEATURES) {
+      expect(written).toContain(feature.query);
+    }
+  });
+
+  it("should use default values for unanswered custom features", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const stdout: WriteStream = {
+      write: () => {
+        setTimeout(() => stdin.emit("data", Buffer.from("\x1b[?62;c")), 10);
+        return true;
+      },
+    };
+
+    const result = await detectTermcap(stdin, stdout, 100, [
+      CursorStyleFeature,
+    ]);
+
+    expect("cursorStyle" in result).toBe(true);
+    expect(result.cursorStyle).toBeUndefined();
+  });
+
+  it("should include custom defaults when not TTY", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = false;
+
+    const result = await detectTermcap(stdin, undefined, 100, [
+      defineFeature({ ...CursorStyleFeature, defaultValue: 1 }),
+    ]);
+
+    expect(result.cursorStyle).toBe(1);
+  });
+});
+
+/**
+ * Run detection against a mock terminal that answers every query batch with
+ * a fixed response.
+ */
+function detectWithResponse(
+  response: string,
+  features: readonly TermcapFeature[] = [],
+) {
+  const stdin = new EventEmitter() as EventEmitter & ReadStream;
+  stdin.isTTY = true;
+  const stdout: WriteStream = {
+    write: () => {
+      setTimeout(() => stdin.emit("data", Buffer.from(response)), 10);
+      return true;
+    },
+  };
+  return detectTermcap(stdin, stdout, 1000, features);
+}
+
+describe("device attributes", () => {
+  it("should decode conformance level and attributes", async () => {
+    const result = await detectWithResponse("\x1b[?64;1;4;6;22;28;52;99c");
+
+    expect(result.deviceAttributes).toEqual({
+      conformanceLevel: 4,
+      attributes: [
+        "columns132",
+        "sixel",
+        "selectiveErase",
+        "ansiColor",
+        "rectangularEditing",
+        "clipboard",
+      ],
+      params: [64, 1, 4, 6, 22, 28, 52, 99],
+    });
+  });
+
+  it("should finish on a response with an empty trailing parameter", async () => {
+    const startTime = Date.now();
+    const result = await detectWithResponse("\x1b[?62;c");
+
+    expect(Date.now() - startTime).toBeLessThan(500);
+    expect(result.deviceAttributes?.conformanceLevel).toBe(2);
+    expect(result.deviceAttributes?.attributes).toEqual([]);
+  });
+
+  it("should treat VT100-class responses as level 1", async () => {
+    const result = await detectWithResponse("\x1b[?1;2c");
+
+    expect(result.deviceAttributes?.conformanceLevel).toBe(1);
+    expect(result.deviceAttributes?.attributes).toEqual([]);
+  });
+
+  it("should be undefined when not TTY", async () => {
+    const result = await detectTermcap(undefined, undefined, 100);
+
+    expect(result.deviceAttributes).toBeUndefined();
+  });
+});
+
+describe("secondary and tertiary device attributes", () => {
+  it.each([
+    ["\x1b[>41;388;0c", 41, 388, "xterm"],
+    ["\x1b[>65;6800;1c", 65, 6800, "vte"],
+    ["\x1b[>1;5202;0c", 1, 5202, undefined],
+    ["\x1b[>1;4000;33c", 1, 4000, undefined],
+    ["\x1b[>83;40800;0c", 83, 40800, "screen"],
+    ["\x1b[>84;0;0c", 84, 0, "tmux"],
+    ["\x1b[>77;30500;0c", 77, 30500, "mintty"],
+    ["\x1b[>1;115;0c", 1, 115, undefined],
+  ])(
+    "should decode %j",
+    async (response, terminalType, firmwareVersion, family) => {
+      const result = await detectWithResponse(`${response}\x1b[?62c`);
+
+      expect(result.secondaryDeviceAttributes).toEqual({
+        terminalType,
+        firmwareVersion,
+        romCartridge: parseInt(response.split(";")[2], 10),
+        family,
+      });
+    },
+  );
+
+  it("should decode the DA3 unit id", async () => {
+    const result = await detectWithResponse(
+      "\x1bP!|7E565445\x1b\\\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.tertiaryDeviceAttributes).toEqual({ unitId: "7E565445" });
+  });
+
+  it("should not confuse DA2 with DA1", async () => {
+    const result = await detectWithResponse("\x1b[>0;95;0c\x1b[?62;22c");
+
+    expect(result.deviceAttributes?.attributes).toEqual(["ansiColor"]);
+    expect(result.secondaryDeviceAttributes?.terminalType).toBe(0);
+    expect(result.tertiaryDeviceAttributes).toBeUndefined();
+  });
+});
+
+describe("palette", () => {
+  it("should collect foreground, cursor and ANSI colors", async () => {
+    const result = await detectWithResponse(
+      "\x1b]10;rgb:ffff/ffff/ffff\x1b\\" +
+        "\x1b]12;rgb:f/0/0\x07" +
+        "\x1b]4;1;rgb:cdcd/0000/0000\x1b\\" +
+        "\x1b]4;10;rgb:00/ff/00\x1b\\" +
+        "\x1b]11;rgb:0000/0000/0000\x1b\\" +
+        "\x1b[?62c",
+    );
+
+    expect(result.backgroundColor).toBe("#000000");
+    expect(result.palette?.foreground).toBe("#ffffff");
+    expect(result.palette?.cursor).toBe("#ff0000");
+    expect(result.palette?.ansi).toHaveLength(16);
+    expect(result.palette?.ansi[1]).toBe("#cd0000");
+    expect(result.palette?.ansi[10]).toBe("#00ff00");
+    expect(result.palette?.ansi[0]).toBeUndefined();
+  });
+
+  it("should be undefined when no color query is answered", async () => {
+    const result = await detectWithResponse("\x1b[?62c");
+
+    expect(result.palette).toBeUndefined();
+  });
+});
+
+describe("color scheme updates", () => {
+  it.each([
+    ["1", true],
+    ["2", true],
+    ["3", true],
+    ["4", false],
+    ["0", false],
+  ])("should map DECRQM status %s to %p", async (status, supported) => {
+    const result = await detectWithResponse(`\x1b[?2031;${status}$y\x1b[?62c`);
+
+    expect(result.colorSchemeUpdates).toBe(supported);
+  });
+
+  it("should be false when unanswered", async () => {
+    const result = await detectWithResponse("\x1b[?62c");
+
+    expect(result.colorSchemeUpdates).toBe(false);
+  });
+});
+
+describe("queryFeatures", () => {
+  it("should query only the given features and the sentinel", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written += data;
+        setTimeout(() => {
+          stdin.emit(
+            "data",
+            Buffer.from("\x1b]11;rgb:fdfd/f6f6/e3e3\x1b\\\x1b[?62c"),
+          );
+        }, 10);
+        return true;
+      },
+    };
+
+    const result = await queryFeatures(stdin, stdout, 1000, [Osc11Feature]);
+
+    expect(written).toBe(Osc11Feature.query + DeviceAttributesFeature.query);
+    expect(result).toEqual({
+      backgroundColor: "#fdf6e3",
+      deviceAttributes: {
+        conformanceLevel: 2,
+        attributes: [],
+        params: [62],
+      },
+    });
+  });
+});
+
+describe("environment heuristics", () => {
+  it("should fill unanswered fields from the environment", async () => {
+    process.env.KITTY_WINDOW_ID = "1";
+
+    const result = await detectTermcap(undefined, undefined, 100);
+
+    expect(result.kittyProtocol).toBe(true);
+    expect(result.terminalName).toBe("kitty");
+    expect(result.sources?.kittyProtocol).toBe("env");
+    expect(result.sources?.terminalName).toBe("env");
+    expect(result.sources?.backgroundColor).toBe("default");
+  });
+
+  it("should prefer query responses over the environment", async () => {
+    process.env.TERM_PROGRAM = "tmux";
+
+    const result = await detectWithResponse("\x1bP>|xterm(388)\x1b\\\x1b[?62c");
+
+    expect(result.terminalName).toBe("xterm(388)");
+    expect(result.sources?.terminalName).toBe("query");
+    expect(result.sources?.deviceAttributes).toBe("query");
+    expect(result.sources?.kittyProtocol).toBe("query");
+  });
+
+  it("should not let the environment override unanswered queries", async () => {
+    // tmux running inside kitty
+    process.env.KITTY_WINDOW_ID = "1";
+    process.env.TMUX = "/tmp/tmux-1000/default,1234,0";
+
+    const result = await detectWithResponse("\x1b[>84;0;0c\x1b[?62;22c");
+
+    expect(result.kittyProtocol).toBe(false);
+    expect(result.sources?.kittyProtocol).toBe("query");
+    expect(result.multiplexer).toBe("tmux");
+  });
+
+  it("should fill values the terminal does not report from the environment", async () => {
+    process.env.COLORTERM = "truecolor";
+    process.env.TERM_PROGRAM = "Apple_Terminal";
+
+    // Only DA1 is answered: no DECRQSS or XTVERSION reply
+    const result = await detectWithResponse("\x1b[?62;22c");
+
+    expect(result.colorDepth).toBe("truecolor");
+    expect(result.sources?.colorDepth).toBe("env");
+    expect(result.terminalName).toBe("Apple_Terminal");
+    expect(result.sources?.terminalName).toBe("env");
+    expect(result.kittyProtocol).toBe(false);
+    expect(result.sources?.kittyProtocol).toBe("query");
+  });
+
+  it("should annotate custom features", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = false;
+
+    const result = await detectTermcap(stdin, undefined, 100, [
+      CursorStyleFeature,
+    ]);
+
+    expect(result.sources?.cursorStyle).toBe("default");
+  });
+});
+
+describe("color depth", () => {
+  it.each([
+    ["0;48:2::1:2:3", "truecolor"],
+    ["48;2;1;2;3", "truecolor"],
+    ["0;48:5:16", "256"],
+    ["0;40", "16"],
+  ])("should decode SGR report %j as %p", async (sgr, colorDepth) => {
+    const result = await detectWithResponse(
+      `\x1bP1$r${sgr}m\x1b\\\x1b[?62c`,
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.colorDepth).toBe(colorDepth);
+    expect(result.sources?.colorDepth).toBe("query");
+  });
+
+  it("should fall back to the environment", async () => {
+    process.env.TERM = "xterm-256color";
+
+    const result = await detectWithResponse(
+      "\x1bP1$r0m\x1b\\\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.colorDepth).toBe("256");
+    expect(result.sources?.colorDepth).toBe("env");
+  });
+
+  it("should let NO_COLOR override the terminal", async () => {
+    process.env.NO_COLOR = "1";
+
+    const result = await detectWithResponse(
+      "\x1bP1$r0;48:2::1:2:3m\x1b\\\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.colorDepth).toBe("none");
+    expect(result.sources?.colorDepth).toBe("env");
+  });
+});
+
+describe("kitty keyboard flags", () => {
+  it("should decode the reported flags", async () => {
+    const result = await detectWithResponse("\x1b[?5u\x1b[?62c");
+
+    expect(result.kittyProtocol).toBe(true);
+    expect(result.kittyKeyboardFlags).toEqual({
+      disambiguate: true,
+      reportEventTypes: false,
+      reportAlternateKeys: true,
+      reportAllKeysAsEscapes: false,
+      reportAssociatedText: false,
+    });
+  });
+
+  it("should be undefined without Kitty protocol support", async () => {
+    const result = await detectWithResponse("\x1b[?62c");
+
+    expect(result.kittyKeyboardFlags).toBeUndefined();
+  });
+});
+
+describe("modifyOtherKeys level", () => {
+  it("should report the raw level", async () => {
+    const result = await detectWithResponse("\x1b[>4;1m\x1b[?62c");
+
+    expect(result.modifyOtherKeys).toBe(false);
+    expect(result.modifyOtherKeysLevel).toBe(1);
+  });
+
+  it("should be undefined when unanswered", async () => {
+    const result = await detectWithResponse("\x1b[?62c");
+
+    expect(result.modifyOtherKeysLevel).toBeUndefined();
+  });
+});
+
+describe("stdin passthrough", () => {
+  it("should pass keys typed during detection to other listeners", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const input: string[] = [];
+    stdin.on("data", (data: Buffer) => input.push(data.toString()));
+    const stdout: WriteStream = {
+      write: () => {
+        setTimeout(() => {
+          stdin.emit("data", Buffer.from("a\x1b[?1u"));
+          stdin.emit("data", Buffer.from("b\x1b[?62c"));
+        }, 10);
+        return true;
+      },
+    };
+
+    const result = await detectTermcap(stdin, stdout, 100);
+
+    expect(result.kittyProtocol).toBe(true);
+    expect(input).toEqual(["a", "b"]);
+  });
+
+  it("should drop replies arriving shortly after a timeout", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const input: string[] = [];
+    stdin.on("data", (data: Buffer) => input.push(data.toString()));
+
+    await detectTermcap(stdin, { write: () => true }, 20);
+    stdin.emit("data", Buffer.from("\x1b]11;rgb:0000/0000/0000\x1b\\x"));
+
+    expect(input).toEqual(["x"]);
+  });
+
+  it("should read replies from a paused stream", async () => {
+    const stdin = new PassThrough() as PassThrough & ReadStream;
+    stdin.isTTY = true;
+    const stdout: WriteStream = {
+      write: () => {
+        setTimeout(() => stdin.write("\x1b[?62;22c"), 10);
+        return true;
+      },
+    };
+
+    const start = Date.now();
+    const result = await detectTermcap(stdin, stdout, 1000);
+
+    expect(result.deviceAttributes?.conformanceLevel).toBe(2);
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(stdin.readableFlowing).toBe(null);
+  });
+});
+
+describe("cancellation", () => {
+  it("should reject and stop listening when aborted", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const controller = new AbortController();
+
+    const pending = detectTermcap(stdin, { write: () => true }, 10000, [], {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow();
+    expect(Object.prototype.hasOwnProperty.call(stdin, "emit")).toBe(false);
+  });
+
+  it("should reject with the abort reason", async () => {
+    const controller = new AbortController();
+    const reason = new Error("unmounted");
+
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const pending = queryFeatures(stdin, { write: () => true }, 10000, [], {
+      signal: controller.signal,
+    });
+    controller.abort(reason);
+
+    await expect(pending).rejects.toBe(reason);
+  });
+
+  it("should not send queries when already aborted", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+
+    const pending = detectTermcap(
+      stdin,
+      {
+        write: (data: string) => {
+          written += data;
+          return true;
+        },
+      },
+      100,
+      [],
+      { signal: AbortSignal.abort() },
+    );
+
+    await expect(pending).rejects.toThrow();
+    expect(written).toBe("");
+  });
+});
+
+describe("options object", () => {
+  function createTerminal(reply: (query: string) => string) {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written += data;
+        setTimeout(() => stdin.emit("data", Buffer.from(reply(data))), 10);
+        return true;
+      },
+    };
+    return { stdin, stdout, written: () => written };
+  }
+
+  it("should only send the selected queries", async () => {
+    const terminal = createTerminal(
+      () => "\x1b]11;rgb:1a1a/1a1a/1a1a\x1b\\\x1b[?62c",
+    );
+
+    const result = await detectTermcap({
+      stdin: terminal.stdin,
+      stdout: terminal.stdout,
+      timeout: 1000,
+      features: [Osc11Feature],
+    });
+
+    expect(terminal.written()).toBe(
+      Osc11Feature.query + DeviceAttributesFeature.query,
+    );
+    expect(result.backgroundColor).toBe("#1a1a1a");
+    expect(result.kittyProtocol).toBe(false);
+    expect(result.sources?.kittyProtocol).toBe("default");
+    expect(result.sources?.backgroundColor).toBe("query");
+  });
+
+  it("should finish without a sentinel once every feature answered", async () => {
+    const terminal = createTerminal(() => "\x1b[?1u");
+    const start = Date.now();
+
+    const result = await detectTermcap({
+      stdin: terminal.stdin,
+      stdout: terminal.stdout,
+      timeout: 5000,
+      features: [KittyFeature],
+      sentinel: false,
+    });
+
+    expect(terminal.written()).toBe(KittyFeature.query);
+    expect(result.kittyProtocol).toBe(true);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it("should stop waiting after perFeatureTimeout", async () => {
+    const terminal = createTerminal(() => "\x1b[?1u");
+    const start = Date.now();
+
+    const result = await detectTermcap({
+      stdin: terminal.stdin,
+      stdout: terminal.stdout,
+      timeout: 5000,
+      features: [KittyFeature, Osc11Feature],
+      sentinel: false,
+      perFeatureTimeout: 50,
+    });
+
+    expect(result.kittyProtocol).toBe(true);
+    expect(result.backgroundColor).toBeUndefined();
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it("should use a custom sentinel", async () => {
+    const terminal = createTerminal(() => "\x1bP1$r2 q\x1b\\");
+
+    const result = await detectTermcap({
+      stdin: terminal.stdin,
+      stdout: terminal.stdout,
+      timeout: 5000,
+      features: [CursorStyleFeature],
+      sentinel: CursorStyleFeature,
+    });
+
+    expect(terminal.written()).toBe(CursorStyleFeature.query);
+    expect(result.cursorStyle).toBe(2);
+  });
+});
+
+describe("diagnostics", () => {
+  it("should not be collected by default", async () => {
+    const result = await detectWithResponse("\x1b[?62c");
+
+    expect(result.diagnostics).toBeUndefined();
+  });
+
+  it("should report queries, responses and unanswered features", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const stdout: WriteStream = {
+      write: () => {
+        setTimeout(() => {
+          stdin.emit("data", Buffer.from("\x1b[?1u"));
+          stdin.emit("data", Buffer.from("\x1b[?62;22c"));
+        }, 10);
+        return true;
+      },
+    };
+
+    const result = await detectTermcap({
+      stdin,
+      stdout,
+      timeout: 1000,
+      features: [KittyFeature, Osc11Feature],
+      diagnostics: true,
+    });
+
+    expect(result.diagnostics).toMatchObject({
+      written:
+        KittyFeature.query + Osc11Feature.query + DeviceAttributesFeature.query,
+      timedOut: ["backgroundColor"],
+      sentinelReceived: true,
+    });
+    expect(result.diagnostics?.responses.map((r) => r.data)).toEqual([
+      "\x1b[?1u",
+      "\x1b[?62;22c",
+    ]);
+    expect(result.diagnostics?.responses[0].time).toBeGreaterThanOrEqual(0);
+    expect(result.diagnostics?.elapsed).toBeGreaterThanOrEqual(
+      result.diagnostics?.responses[1].time ?? 0,
+    );
+  });
+
+  it("should report a missing sentinel after a timeout", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+
+    const result = await detectTermcap({
+      stdin,
+      stdout: { write: () => true },
+      timeout: 30,
+      features: [Osc11Feature],
+      diagnostics: true,
+    });
+
+    expect(result.diagnostics?.sentinelReceived).toBe(false);
+    expect(result.diagnostics?.timedOut).toEqual([
+      "backgroundColor",
+      "deviceAttributes",
+    ]);
+    expect(result.diagnostics?.elapsed).toBeGreaterThanOrEqual(25);
+  });
+});
+
+describe("multiplexers", () => {
+  it("should detect tmux from the environment", async () => {
+    process.env.TMUX = "/tmp/tmux-1000/default,1234,0";
+    const result = await detectWithResponse(
+      "\x1b]11;rgb:0000/0000/0000\x1b\\\x1b[?62c",
+    );
+
+    expect(result.multiplexer).toBe("tmux");
+    expect(result.sources?.multiplexer).toBe("env");
+    expect(result.layers?.backgroundColor).toBe("multiplexer");
+  });
+
+  it("should detect a multiplexer from its replies", async () => {
+    const result = await detectWithResponse("\x1b[>84;0;0c\x1b[?62c");
+
+    expect(result.multiplexer).toBe("tmux");
+    expect(result.sources?.multiplexer).toBe("query");
+    expect(result.layers?.secondaryDeviceAttributes).toBe("multiplexer");
+  });
+
+  it("should attribute replies to the terminal outside a multiplexer", async () => {
+    const result = await detectWithResponse("\x1b[>41;388;0c\x1b[?62c");
+
+    expect(result.multiplexer).toBeUndefined();
+    expect(result.layers).toEqual({
+      secondaryDeviceAttributes: "terminal",
+      deviceAttributes: "terminal",
+    });
+  });
+
+  it("should wrap queries in tmux passthrough", async () => {
+    process.env.TMUX = "/tmp/tmux-1000/default,1234,0";
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written += data;
+        setTimeout(() => {
+          stdin.emit("data", Buffer.from("\x1b]11;rgb:ffff/ffff/ffff\x1b\\"));
+          stdin.emit("data", Buffer.from("\x1b[?62c"));
+        }, 10);
+        return true;
+      },
+    };
+
+    const result = await detectTermcap({
+      stdin,
+      stdout,
+      features: [Osc11Feature],
+      passthrough: true,
+    });
+
+    expect(written).toBe(
+      "\x1bPtmux;\x1b\x1b]11;?\x1b\x1b\\\x1b\\" + "\x1bPtmux;\x1b\x1b[c\x1b\\",
+    );
+    expect(result.backgroundColor).toBe("#ffffff");
+    expect(result.layers?.backgroundColor).toBe("terminal");
+  });
+
+  it("should not wrap queries outside a multiplexer", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written += data;
+        setTimeout(() => stdin.emit("data", Buffer.from("\x1b[?62c")), 10);
+        return true;
+      },
+    };
+
+    await detectTermcap({ stdin, stdout, features: [], passthrough: true });
+
+    expect(written).toBe(DeviceAttributesFeature.query);
+  });
+});
+
+describe("private modes", () => {
+  it("should decode DECRQM replies", async () => {
+    const result = await detectWithResponse(
+      "\x1b[?2026;2$y\x1b[?2004;1$y\x1b[?1016;0$y\x1b[?1049;4$y\x1b[?2027;3$y\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.modes).toEqual({
+      2026: "reset",
+      2004: "set",
+      1016: "notRecognized",
+      1049: "permanentlyReset",
+      2027: "permanentlySet",
+    });
+    expect(result.modes?.[PRIVATE_MODES.focusEvents]).toBeUndefined();
+  });
+
+  it("should query every mode in PRIVATE_MODES when asked to", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written += data;
+        setTimeout(() => stdin.emit("data", Buffer.from("\x1b[?62c")), 10);
+        return true;
+      },
+    };
+
+    await detectTermcap(stdin, stdout, 1000);
+    expect(written).not.toContain(`\x1b[?${PRIVATE_MODES.bracketedPaste}$p`);
+
+    written = "";
+    await detectTermcap(stdin, stdout, 1000, EXTENDED_FEATURES);
+    for (const mode of Object.values(PRIVATE_MODES)) {
+      expect(written).toContain(`\x1b[?${mode}$p`);
+    }
+  });
+
+  it("should merge custom modes into the same map", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const stdout: WriteStream = {
+      write: () => {
+        setTimeout(
+          () =>
+            stdin.emit(
+              "data",
+              Buffer.from("\x1b[?2004;2$y\x1b[?2048;2$y\x1b[?62c"),
+            ),
+          10,
+        );
+        return true;
+      },
+    };
+
+    const result = await detectTermcap(stdin, stdout, 1000, [
+      ...EXTENDED_FEATURES,
+      ...createModeFeatures([2048]),
+    ]);
+
+    expect(result.modes).toEqual({ 2004: "reset", 2048: "reset" });
+  });
+
+  it("should tell supported modes apart", () => {
+    expect(isModeSupported("set")).toBe(true);
+    expect(isModeSupported("reset")).toBe(true);
+    expect(isModeSupported("permanentlyReset")).toBe(true);
+    expect(isModeSupported("notRecognized")).toBe(false);
+    expect(isModeSupported(undefined)).toBe(false);
+  });
+});
+
+describe("graphics", () => {
+  it("should detect the Kitty graphics protocol", async () => {
+    const result = await detectWithResponse(
+      "\x1b_Gi=31;OK\x1b\\\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.graphics).toEqual({
+      kitty: true,
+      sixel: false,
+      iterm2: false,
+    });
+    expect(result.sources?.graphics).toBe("query");
+  });
+
+  it("should report Kitty graphics errors as unsupported", async () => {
+    const result = await detectWithResponse(
+      "\x1b_Gi=31;ENOTSUPPORTED:unsupported format\x1b\\\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.graphics?.kitty).toBe(false);
+  });
+
+  it("should read sixel color registers and geometry", async () => {
+    const result = await detectWithResponse(
+      "\x1b[?1;0;1024S\x1b[?2;0;4096;4096S\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.graphics).toEqual({
+      kitty: false,
+      sixel: true,
+      iterm2: false,
+      sixelColorRegisters: 1024,
+      sixelMaxGeometry: { width: 4096, height: 4096 },
+    });
+  });
+
+  it("should ignore failed XTSMGRAPHICS replies", async () => {
+    const result = await detectWithResponse(
+      "\x1b[?1;3;0S\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.graphics?.sixel).toBe(false);
+    expect(result.graphics?.sixelColorRegisters).toBeUndefined();
+  });
+
+  it("should detect sixel from device attributes", async () => {
+    const result = await detectWithResponse("\x1b[?62;4;22c");
+
+    expect(result.graphics?.sixel).toBe(true);
+  });
+
+  it("should infer iTerm2 inline images from the terminal identity", async () => {
+    const result = await detectWithResponse(
+      "\x1bP>|WezTerm 20240203-110809-5046fc22\x1b\\\x1b[?62c",
+    );
+
+    expect(result.graphics?.iterm2).toBe(true);
+  });
+
+  it("should infer iTerm2 inline images from TERM_PROGRAM", async () => {
+    process.env.TERM_PROGRAM = "iTerm.app";
+    const result = await detectTermcap(undefined, undefined, 100);
+
+    expect(result.graphics?.iterm2).toBe(true);
+    expect(result.sources?.graphics).toBe("env");
+  });
+});
+
+describe("clipboard", () => {
+  it("should detect OSC 52 from the Ms capability", async () => {
+    const result = await detectWithResponse(
+      "\x1bP1+r4d73=1B5D35323B25703125733B25703225733B07\x1b\\\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.clipboard).toBe(true);
+    expect(result.sources?.clipboard).toBe("query");
+  });
+
+  it("should report an undefined Ms capability as unsupported", async () => {
+    const result = await detectWithResponse(
+      "\x1bP0+r4d73\x1b\\\x1b[?62c",
+      EXTENDED_FEATURES,
+    );
+
+    expect(result.clipboard).toBe(false);
+    expect(result.sources?.clipboard).toBe("query");
+  });
+
+  it("should detect OSC 52 from device attributes", async () => {
+    const result = await detectWithResponse("\x1b[?64;4;52c");
+
+    expect(result.clipboard).toBe(true);
+    expect(result.sources?.clipboard).toBe("query");
+  });
+
+  it("should infer OSC 52 from TERM_PROGRAM", async () => {
+    process.env.TERM_PROGRAM = "WezTerm";
+    const result = await detectTermcap(undefined, undefined, 100);
+
+    expect(result.clipboard).toBe(true);
+    expect(result.sources?.clipboard).toBe("env");
+  });
+
+  it("should default to unsupported", async () => {
+    const result = await detectTermcap(undefined, undefined, 100);
+
+    expect(result.clipboard).toBe(false);
+    expect(result.sources?.clipboard).toBe("default");
+  });
+});
+
+describe("terminfo", () => {
+  const hex = (text: string) => Buffer.from(text).toString("hex");
+
+  it("should hex-encode capability names", () => {
+    expect(encodeTerminfoName("Tc")).toBe("5463");
+    expect(encodeTerminfoName("colors")).toBe("636f6c6f7273");
+  });
+
+  it("should decode values, booleans and rejected names", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    let written = "";
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        written += data;
+        const response =
+          `${ESC}P1+r${hex("colors")}=${hex("256")}${ESC}\\` +
+          `${ESC}P1+r${hex("Smulx").toUpperCase()}=${hex(`${ESC}[4:%p1%dm`)}${ESC}\\` +
+          `${ESC}P1+r${hex("Tc")}${ESC}\\` +
+          `${ESC}P0+r${hex("bogus")}${ESC}\\` +
+          `${ESC}[?62c`;
+        setTimeout(() => stdin.emit("data", Buffer.from(response)), 10);
+        return true;
+      },
+    };
+
+    const terminfo = await queryTermcap(stdin, stdout, 1000, [
+      "colors",
+      "Smulx",
+      "Tc",
+      "bogus",
+      "unanswered",
+    ]);
+
+    expect(written).toContain(`${ESC}P+q636f6c6f7273${ESC}\\`);
+    expect(terminfo).toEqual({
+      colors: "256",
+      Smulx: `${ESC}[4:%p1%dm`,
+      Tc: true,
+      bogus: false,
+    });
+  });
+
+  it("should resolve to an empty map without a terminal", async () => {
+    expect(await queryTermcap(undefined, undefined, 100, ["Tc"])).toEqual({});
+  });
+
+  it("should report the default capabilities and infer truecolor", async () => {
+    const result = await detectWithResponse(
+      `${ESC}P1+r${hex("RGB")}${ESC}\\${ESC}P1+r${hex("Ms")}=${hex(`${ESC}]52;%p1%s;%p2%s${ESC}\\`)}${ESC}\\${ESC}[?62c`,
+      TerminfoFeatures,
+    );
+
+    expect(result.terminfo?.RGB).toBe(true);
+    expect(result.colorDepth).toBe("truecolor");
+    expect(result.sources?.colorDepth).toBe("query");
+    expect(result.clipboard).toBe(true);
+  });
+});
+
+describe("remote sessions", () => {
+  it("should report the session kind", async () => {
+    process.env.SSH_TTY = "/dev/pts/3";
+    const result = await detectTermcap(undefined, undefined, 100);
+
+    expect(result.remoteSession).toBe("ssh");
+    expect(result.sources?.remoteSession).toBe("env");
+  });
+
+  it("should report a local session by default", async () => {
+    const result = await detectTermcap(undefined, undefined, 100);
+
+    expect(result.remoteSession).toBeUndefined();
+    expect(result.sources?.remoteSession).toBe("default");
+  });
+});
+
+describe("adaptive timeout", () => {
+  function createTerminal(reply: (query: string) => string | undefined) {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const writes: string[] = [];
+    const stdout: WriteStream = {
+      write: (data: string) => {
+        writes.push(data);
+        const response = reply(data);
+        if (response) {
+          setTimeout(() => stdin.emit("data", Buffer.from(response)), 10);
+        }
+        return true;
+      },
+    };
+    return { stdin, stdout, writes };
+  }
+
+  it("should probe the round-trip time before querying", async () => {
+    const { stdin, stdout, writes } = createTerminal((query) =>
+      query === "\x1b[5n" ? "\x1b[0n" : "\x1b[?1u\x1b[?62c",
+    );
+
+    const result = await detectTermcap({
+      stdin,
+      stdout,
+      features: [KittyFeature],
+      adaptiveTimeout: true,
+      diagnostics: true,
+    });
+
+    expect(writes).toEqual([
+      "\x1b[5n",
+      KittyFeature.query + DeviceAttributesFeature.query,
+    ]);
+    expect(result.kittyProtocol).toBe(true);
+    expect(result.diagnostics?.written).toBe(
+      "\x1b[5n" + KittyFeature.query + DeviceAttributesFeature.query,
+    );
+    expect(result.diagnostics?.roundTripTime).toBeGreaterThanOrEqual(5);
+  });
+
+  it("should size the wait from the round-trip time", async () => {
+    // Answers the probe, ignores everything else
+    const { stdin, stdout } = createTerminal((query) =>
+      query === "\x1b[5n" ? "\x1b[0n" : undefined,
+    );
+
+    const startTime = Date.now();
+    const result = await detectTermcap({
+      stdin,
+      stdout,
+      timeout: 5000,
+      features: [Osc11Feature],
+      adaptiveTimeout: true,
+    });
+
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    expect(result.backgroundColor).toBeUndefined();
+  });
+
+  it("should not query when the probe is not answered", async () => {
+    const { stdin, stdout, writes } = createTerminal(() => undefined);
+
+    const result = await detectTermcap({
+      stdin,
+      stdout,
+      timeout: 50,
+      features: [Osc11Feature],
+      adaptiveTimeout: true,
+      diagnostics: true,
+    });
+
+    expect(writes).toEqual(["\x1b[5n"]);
+    expect(result.diagnostics?.roundTripTime).toBeUndefined();
+  });
+});
+
 describe("DEFAULT_DETECTION_TIMEOUT", () => {
   it("should be 1000ms", () => {
     expect(DEFAULT_DETECTION_TIMEOUT).toBe(1000);
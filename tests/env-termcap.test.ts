@@ -0,0 +1,95 @@
+import { describe, it, expect } from "bun:test";
+import {
+  detectTermcapFromEnv,
+  getForcedColorDepth,
+} from "../src/utils/env-termcap.js";
+
+describe("detectTermcapFromEnv", () => {
+  it("should return nothing for an empty environment", () => {
+    expect(detectTermcapFromEnv({})).toEqual({});
+  });
+
+  it("should combine TERM_PROGRAM and TERM_PROGRAM_VERSION", () => {
+    expect(
+      detectTermcapFromEnv({
+        TERM_PROGRAM: "iTerm.app",
+        TERM_PROGRAM_VERSION: "3.5.0",
+      }),
+    ).toEqual({ terminalName: "iTerm.app 3.5.0", colorDepth: "truecolor" });
+    expect(detectTermcapFromEnv({ TERM_PROGRAM: "Apple_Terminal" })).toEqual({
+      terminalName: "Apple_Terminal",
+    });
+  });
+
+  it("should identify kitty and its keyboard protocol", () => {
+    expect(detectTermcapFromEnv({ KITTY_WINDOW_ID: "1" })).toEqual({
+      terminalName: "kitty",
+      kittyProtocol: true,
+      colorDepth: "truecolor",
+    });
+    expect(detectTermcapFromEnv({ TERM: "xterm-kitty" })).toEqual({
+      terminalName: "kitty",
+      kittyProtocol: true,
+      colorDepth: "truecolor",
+    });
+    expect(
+      detectTermcapFromEnv({ TERM_PROGRAM: "ghostty", TERM: "xterm-ghostty" }),
+    ).toEqual({
+      terminalName: "ghostty",
+      kittyProtocol: true,
+      colorDepth: "truecolor",
+    });
+  });
+
+  it("should identify WezTerm and VTE", () => {
+    expect(
+      detectTermcapFromEnv({ WEZTERM_EXECUTABLE: "/usr/bin/wezterm-gui" }),
+    ).toEqual({ terminalName: "WezTerm", colorDepth: "truecolor" });
+    expect(detectTermcapFromEnv({ VTE_VERSION: "7600" })).toEqual({
+      terminalName: "VTE 7600",
+    });
+  });
+
+  it("should ignore generic TERM values", () => {
+    expect(detectTermcapFromEnv({ TERM: "xterm-256color" })).toEqual({
+      colorDepth: "256",
+    });
+    expect(detectTermcapFromEnv({ TERM: "foot" })).toEqual({
+      terminalName: "foot",
+      kittyProtocol: true,
+      colorDepth: "truecolor",
+    });
+  });
+});
+
+describe("color depth from the environment", () => {
+  it.each([
+    [{ COLORTERM: "truecolor", TERM: "xterm-256color" }, "truecolor"],
+    [{ COLORTERM: "24bit" }, "truecolor"],
+    [{ TERM: "xterm-direct" }, "truecolor"],
+    [{ TERM: "screen-256color" }, "256"],
+    [{ TERM: "linux" }, "16"],
+    [{ TERM: "dumb" }, "none"],
+    [{ NO_COLOR: "1", COLORTERM: "truecolor" }, "none"],
+    [{ FORCE_COLOR: "2", TERM: "dumb" }, "256"],
+    [{}, undefined],
+  ])("should map %j to %p", (env, colorDepth) => {
+    expect(detectTermcapFromEnv(env).colorDepth).toBe(colorDepth);
+  });
+});
+
+describe("getForcedColorDepth", () => {
+  it.each([
+    [{ NO_COLOR: "1" }, "none"],
+    [{ NO_COLOR: "" }, undefined],
+    [{ FORCE_COLOR: "0" }, "none"],
+    [{ FORCE_COLOR: "false" }, "none"],
+    [{ FORCE_COLOR: "" }, "16"],
+    [{ FORCE_COLOR: "true" }, "16"],
+    [{ FORCE_COLOR: "2" }, "256"],
+    [{ FORCE_COLOR: "3" }, "truecolor"],
+    [{}, undefined],
+  ])("should map %j to %p", (env, colorDepth) => {
+    expect(getForcedColorDepth(env)).toBe(colorDepth);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "bun:test";
+import {
+  formatDiagnostics,
+  formatTermcap,
+} from "../src/utils/format-termcap.js";
+
+describe("formatTermcap", () => {
+  it("should align values and sources", () => {
+    const output = formatTermcap({
+      isReady: true,
+      backgroundColor: "#1a1a1a",
+      terminalName: undefined,
+      kittyProtocol: true,
+      modifyOtherKeys: false,
+      sources: {
+        backgroundColor: "query",
+        terminalName: "default",
+        kittyProtocol: "query",
+        modifyOtherKeys: "default",
+      },
+    });
+
+    expect(output).toBe(
+      [
+        "Capability       Value    Source",
+        "backgroundColor  #1a1a1a  query",
+        "terminalName     -        default",
+        "kittyProtocol    true     query",
+        "modifyOtherKeys  false    default",
+      ].join("\n"),
+    );
+  });
+
+  it("should omit the source column without sources", () => {
+    const output = formatTermcap({
+      isReady: true,
+      backgroundColor: undefined,
+      terminalName: "xterm",
+      kittyProtocol: false,
+      modifyOtherKeys: false,
+    });
+
+    expect(output.split("\n")[0]).toBe("Capability       Value");
+    expect(output).toContain("terminalName     xterm");
+  });
+
+  it("should mark values answered by a multiplexer", () => {
+    const output = formatTermcap({
+      isReady: true,
+      backgroundColor: "#000000",
+      terminalName: "tmux 3.4",
+      kittyProtocol: false,
+      modifyOtherKeys: false,
+      multiplexer: "tmux",
+      sources: { terminalName: "query", multiplexer: "env" },
+      layers: { terminalName: "multiplexer" },
+    });
+
+    expect(output).toContain("terminalName     tmux 3.4  query (tmux)");
+    expect(output).toContain("multiplexer      tmux      env");
+    expect(output).not.toContain("layers");
+  });
+
+  it("should render objects as JSON", () => {
+    const output = formatTermcap({
+      isReady: true,
+      backgroundColor: undefined,
+      terminalName: undefined,
+      kittyProtocol: false,
+      modifyOtherKeys: false,
+      palette: { foreground: "#ffffff" },
+    });
+
+    expect(output).toContain('palette          {"foreground":"#ffffff"}');
+  });
+});
+
+describe("formatDiagnostics", () => {
+  it("should show escaped queries and timed replies", () => {
+    const output = formatDiagnostics({
+      written: "\x1b[c",
+      responses: [{ data: "\x1b[?62c", time: 12 }],
+      timedOut: ["kittyProtocol", "backgroundColor"],
+      sentinelReceived: true,
+      elapsed: 15,
+    });
+
+    expect(output).toBe(
+      [
+        'Written: "\\u001b[c"',
+        "Responses:",
+        '  +12ms "\\u001b[?62c"',
+        "Timed out: kittyProtocol, backgroundColor",
+        "Sentinel received: yes",
+        "Elapsed: 15ms",
+      ].join("\n"),
+    );
+  });
+
+  it("should show the round-trip time when measured", () => {
+    const output = formatDiagnostics({
+      written: "\x1b[5n",
+      responses: [{ data: "\x1b[0n", time: 180 }],
+      timedOut: [],
+      sentinelReceived: true,
+      elapsed: 400,
+      roundTripTime: 180,
+    });
+
+    expect(output).toContain("Round trip: 180ms");
+  });
+
+  it("should mark empty lists", () => {
+    const output = formatDiagnostics({
+      written: "",
+      responses: [],
+      timedOut: [],
+      sentinelReceived: false,
+      elapsed: 1000,
+    });
+
+    expect(output).toContain("Responses: -");
+    expect(output).toContain("Timed out: -");
+    expect(output).toContain("Sentinel received: no");
+  });
+});
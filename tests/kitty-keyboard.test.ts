@@ -0,0 +1,101 @@
+import { describe, it, expect } from "bun:test";
+import {
+  decodeKittyKeyboardFlags,
+  enableKittyKeyboard,
+  encodeKittyKeyboardFlags,
+  KITTY_KEYBOARD_FLAGS,
+} from "../src/utils/kitty-keyboard.js";
+
+describe("decodeKittyKeyboardFlags", () => {
+  it("should decode each bit", () => {
+    expect(decodeKittyKeyboardFlags(0)).toEqual({
+      disambiguate: false,
+      reportEventTypes: false,
+      reportAlternateKeys: false,
+      reportAllKeysAsEscapes: false,
+      reportAssociatedText: false,
+    });
+    expect(decodeKittyKeyboardFlags(31)).toEqual({
+      disambiguate: true,
+      reportEventTypes: true,
+      reportAlternateKeys: true,
+      reportAllKeysAsEscapes: true,
+      reportAssociatedText: true,
+    });
+    expect(decodeKittyKeyboardFlags(10)).toEqual({
+      disambiguate: false,
+      reportEventTypes: true,
+      reportAlternateKeys: false,
+      reportAllKeysAsEscapes: true,
+      reportAssociatedText: false,
+    });
+  });
+});
+
+describe("encodeKittyKeyboardFlags", () => {
+  it("should encode enabled flags", () => {
+    expect(
+      encodeKittyKeyboardFlags({
+        disambiguate: true,
+        reportAlternateKeys: true,
+      }),
+    ).toBe(5);
+    expect(encodeKittyKeyboardFlags({ reportEventTypes: false })).toBe(0);
+  });
+
+  it("should pass numbers through", () => {
+    expect(encodeKittyKeyboardFlags(KITTY_KEYBOARD_FLAGS.disambiguate)).toBe(1);
+  });
+
+  it("should round-trip with decodeKittyKeyboardFlags", () => {
+    for (let flags = 0; flags < 32; flags++) {
+      expect(encodeKittyKeyboardFlags(decodeKittyKeyboardFlags(flags))).toBe(
+        flags,
+      );
+    }
+  });
+});
+
+describe("enableKittyKeyboard", () => {
+  function createStdout() {
+    const writes: string[] = [];
+    return {
+      writes,
+      stdout: {
+        write: (data: string) => {
+          writes.push(data);
+          return true;
+        },
+      },
+    };
+  }
+
+  it("should push the flags and pop them once", () => {
+    const { writes, stdout } = createStdout();
+
+    const disable = enableKittyKeyboard(stdout, {
+      disambiguate: true,
+      reportEventTypes: true,
+    });
+    expect(writes).toEqual(["\x1b[>3u"]);
+
+    disable();
+    disable();
+    expect(writes).toEqual(["\x1b[>3u", "\x1b[<u"]);
+  });
+
+  it("should pop the flags on process exit", () => {
+    const { writes, stdout } = createStdout();
+    const listeners = process.listenerCount("exit");
+
+    const disable = enableKittyKeyboard(stdout, 1);
+    expect(process.listenerCount("exit")).toBe(listeners + 1);
+
+    process.emit("exit", 0);
+    expect(writes).toEqual(["\x1b[>1u", "\x1b[<u"]);
+    expect(process.listenerCount("exit")).toBe(listeners);
+
+    disable();
+    expect(writes).toHaveLength(2);
+  });
+});
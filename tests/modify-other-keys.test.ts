@@ -0,0 +1,36 @@
+import { describe, it, expect } from "bun:test";
+import { setModifyOtherKeys } from "../src/utils/modify-other-keys.js";
+
+function createStdout() {
+  const writes: string[] = [];
+  return {
+    writes,
+    stdout: {
+      write: (data: string) => {
+        writes.push(data);
+        return true;
+      },
+    },
+  };
+}
+
+describe("setModifyOtherKeys", () => {
+  it("should set the level and restore the previous one once", () => {
+    const { writes, stdout } = createStdout();
+
+    const restore = setModifyOtherKeys(stdout, 2, 1);
+    expect(writes).toEqual(["\x1b[>4;2m"]);
+
+    restore();
+    restore();
+    expect(writes).toEqual(["\x1b[>4;2m", "\x1b[>4;1m"]);
+  });
+
+  it("should restore level 0 by default", () => {
+    const { writes, stdout } = createStdout();
+
+    setModifyOtherKeys(stdout, 2)();
+
+    expect(writes).toEqual(["\x1b[>4;2m", "\x1b[>4;0m"]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "bun:test";
+import {
+  getMultiplexer,
+  identifyMultiplexer,
+  wrapForPassthrough,
+} from "../src/utils/multiplexer.js";
+
+describe("getMultiplexer", () => {
+  it("should detect tmux and screen", () => {
+    expect(getMultiplexer({ TMUX: "/tmp/tmux-1000/default,1234,0" })).toBe(
+      "tmux",
+    );
+    expect(getMultiplexer({ STY: "1234.pts-0.host" })).toBe("screen");
+  });
+
+  it("should return undefined outside a multiplexer", () => {
+    expect(getMultiplexer({ TERM: "screen-256color" })).toBeUndefined();
+  });
+});
+
+describe("identifyMultiplexer", () => {
+  it("should recognise tmux from XTVERSION", () => {
+    expect(identifyMultiplexer({ terminalName: "tmux 3.4" })).toBe("tmux");
+  });
+
+  it("should recognise DA2 type ids", () => {
+    const da2 = { terminalType: 83, firmwareVersion: 40900, romCartridge: 0 };
+    expect(
+      identifyMultiplexer({
+        secondaryDeviceAttributes: { ...da2, family: "screen" },
+      }),
+    ).toBe("screen");
+    expect(
+      identifyMultiplexer({
+        terminalName: "xterm(388)",
+        secondaryDeviceAttributes: { ...da2, family: "xterm" },
+      }),
+    ).toBeUndefined();
+  });
+});
+
+describe("wrapForPassthrough", () => {
+  it("should double ESC for tmux", () => {
+    expect(wrapForPassthrough("\x1b]11;?\x1b\\", "tmux")).toBe(
+      "\x1bPtmux;\x1b\x1b]11;?\x1b\x1b\\\x1b\\",
+    );
+    expect(wrapForPassthrough("\x1bP$qm\x1b\\", "tmux")).toBe(
+      "\x1bPtmux;\x1b\x1bP$qm\x1b\x1b\\\x1b\\",
+    );
+  });
+
+  it("should terminate OSC queries with BEL for screen", () => {
+    expect(wrapForPassthrough("\x1b]11;?\x1b\\", "screen")).toBe(
+      "\x1bP\x1b]11;?\x07\x1b\\",
+    );
+    expect(wrapForPassthrough("\x1b[c", "screen")).toBe("\x1bP\x1b[c\x1b\\");
+  });
+
+  it("should not wrap DCS queries for screen", () => {
+    expect(wrapForPassthrough("\x1bP$qm\x1b\\", "screen")).toBeUndefined();
+  });
+});
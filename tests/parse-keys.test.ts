@@ -0,0 +1,163 @@
+import { describe, it, expect } from "bun:test";
+import { parseKeys } from "../src/utils/parse-keys.js";
+
+const NO_MODIFIERS = {
+  shift: false,
+  alt: false,
+  ctrl: false,
+  super: false,
+  hyper: false,
+  meta: false,
+  capsLock: false,
+  numLock: false,
+};
+
+describe("parseKeys", () => {
+  describe("Kitty keyboard protocol", () => {
+    it("should decode a key with modifiers", () => {
+      expect(parseKeys("\x1b[105;5u")).toEqual([
+        {
+          key: "i",
+          modifiers: { ...NO_MODIFIERS, ctrl: true },
+          eventType: "press",
+          sequence: "\x1b[105;5u",
+        },
+      ]);
+    });
+
+    it("should decode alternate keys and event types", () => {
+      const [event] = parseKeys("\x1b[97:65;2:3u");
+
+      expect(event.key).toBe("a");
+      expect(event.shiftedKey).toBe("A");
+      expect(event.modifiers.shift).toBe(true);
+      expect(event.eventType).toBe("release");
+      expect(event.text).toBeUndefined();
+    });
+
+    it("should decode the base layout key and associated text", () => {
+      const [event] = parseKeys("\x1b[1089::99;1;1089u");
+
+      expect(event.key).toBe("с");
+      expect(event.baseLayoutKey).toBe("c");
+      expect(event.text).toBe("с");
+    });
+
+    it("should derive text for shifted printable keys", () => {
+      const [event] = parseKeys("\x1b[97:65;2u");
+
+      expect(event.text).toBe("A");
+    });
+
+    it("should decode super, hyper and meta", () => {
+      const [event] = parseKeys("\x1b[120;57u");
+
+      expect(event.modifiers).toEqual({
+        ...NO_MODIFIERS,
+        super: true,
+        hyper: true,
+        meta: true,
+      });
+    });
+
+    it("should name functional keys", () => {
+      expect(parseKeys("\x1b[27u")[0].key).toBe("escape");
+      expect(parseKeys("\x1b[13;3u")[0].key).toBe("return");
+      expect(parseKeys("\x1b[57441;2u")[0].key).toBe("leftShift");
+      expect(parseKeys("\x1b[57399u")[0].key).toBe("kp0");
+      expect(parseKeys("\x1b[57376u")[0].key).toBe("f13");
+    });
+
+    it("should decode event types on functional keys", () => {
+      const [up] = parseKeys("\x1b[1;1:2A");
+      const [del] = parseKeys("\x1b[3;5:3~");
+
+      expect(up).toMatchObject({ key: "upArrow", eventType: "repeat" });
+      expect(del.key).toBe("delete");
+      expect(del.modifiers.ctrl).toBe(true);
+      expect(del.eventType).toBe("release");
+    });
+  });
+
+  describe("modifyOtherKeys", () => {
+    it("should decode CSI 27 sequences", () => {
+      const [tab] = parseKeys("\x1b[27;5;9~");
+      const [letter] = parseKeys("\x1b[27;6;73~");
+
+      expect(tab.key).toBe("tab");
+      expect(tab.modifiers.ctrl).toBe(true);
+      expect(letter.key).toBe("I");
+      expect(letter.modifiers).toEqual({
+        ...NO_MODIFIERS,
+        shift: true,
+        ctrl: true,
+      });
+    });
+  });
+
+  describe("legacy sequences", () => {
+    it("should decode text character by character", () => {
+      expect(parseKeys("hi").map((event) => event.text)).toEqual(["h", "i"]);
+    });
+
+    it("should mark uppercase letters as shifted", () => {
+      const [event] = parseKeys("A");
+
+      expect(event).toMatchObject({ key: "a", shiftedKey: "A", text: "A" });
+      expect(event.modifiers.shift).toBe(true);
+    });
+
+    it("should decode control characters", () => {
+      const keys = parseKeys("\r\t\x7f\x03\x00").map((event) => [
+        event.key,
+        event.modifiers.ctrl,
+      ]);
+
+      expect(keys).toEqual([
+        ["return", false],
+        ["tab", false],
+        ["backspace", false],
+        ["c", true],
+        [" ", true],
+      ]);
+    });
+
+    it("should decode Alt as an ESC prefix", () => {
+      const [event] = parseKeys("\x1bx");
+
+      expect(event.key).toBe("x");
+      expect(event.modifiers.alt).toBe(true);
+      expect(event.text).toBeUndefined();
+    });
+
+    it("should decode a lone ESC as the Escape key", () => {
+      expect(parseKeys("\x1b").map((event) => event.key)).toEqual(["escape"]);
+    });
+
+    it("should decode cursor and function keys", () => {
+      const keys = parseKeys(
+        "\x1b[A\x1bOB\x1b[1;5C\x1b[H\x1b[5~\x1bOP\x1b[15~\x1b[Z",
+      ).map((event) => event.key);
+
+      expect(keys).toEqual([
+        "upArrow",
+        "downArrow",
+        "rightArrow",
+        "home",
+        "pageUp",
+        "f1",
+        "f5",
+        "tab",
+      ]);
+      expect(parseKeys("\x1b[Z")[0].modifiers.shift).toBe(true);
+    });
+  });
+
+  it("should skip terminal responses", () => {
+    const events = parseKeys(
+      "\x1b]11;rgb:0000/0000/0000\x1b\\a\x1b[?1u\x1b[12;40R\x1bP1$r0m\x1b\\b",
+    );
+
+    expect(events.map((event) => event.key)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "bun:test";
+import { getRemoteSession } from "../src/utils/remote-session.js";
+
+const noFiles = () => false;
+
+describe("getRemoteSession", () => {
+  it("should detect SSH sessions", () => {
+    expect(getRemoteSession({ SSH_TTY: "/dev/pts/3" }, noFiles)).toBe("ssh");
+    expect(
+      getRemoteSession(
+        { SSH_CONNECTION: "10.0.0.2 52000 10.0.0.1 22" },
+        noFiles,
+      ),
+    ).toBe("ssh");
+    expect(getRemoteSession({ SSH_CLIENT: "10.0.0.2 52000 22" }, noFiles)).toBe(
+      "ssh",
+    );
+  });
+
+  it("should prefer mosh over SSH", () => {
+    expect(
+      getRemoteSession(
+        {
+          MOSH_SERVER_PID: "4242",
+          SSH_CONNECTION: "10.0.0.2 52000 10.0.0.1 22",
+        },
+        noFiles,
+      ),
+    ).toBe("mosh");
+  });
+
+  it("should detect containers", () => {
+    expect(getRemoteSession({ container: "podman" }, noFiles)).toBe(
+      "container",
+    );
+    expect(getRemoteSession({}, (path) => path === "/.dockerenv")).toBe(
+      "container",
+    );
+  });
+
+  it("should return undefined for local sessions", () => {
+    expect(getRemoteSession({}, noFiles)).toBeUndefined();
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "bun:test";
+import { EventEmitter } from "node:events";
+import { PassThrough } from "node:stream";
+import {
+  filterTerminalResponses,
+  splitTerminalResponses,
+} from "../src/utils/response-filter.js";
+
+const ESC = "\x1b";
+
+describe("splitTerminalResponses", () => {
+  it("should separate replies from input", () => {
+    expect(
+      splitTerminalResponses(
+        "a\x1b[?62c\x1b]11;rgb:0000/0000/0000\x1b\\b\x1bP>|xterm(388)\x1b\\c",
+      ),
+    ).toEqual({
+      input: "abc",
+      responses: [
+        "\x1b[?62c",
+        "\x1b]11;rgb:0000/0000/0000\x1b\\",
+        "\x1bP>|xterm(388)\x1b\\",
+      ],
+      partial: "",
+    });
+  });
+
+  it("should keep key sequences as input", () => {
+    const input = "\x1b[A\x1b[1;5C\x1b[105;5u\x1b[<0;10;5M\x1bx\x1b";
+
+    expect(splitTerminalResponses(input)).toEqual({
+      input,
+      responses: [],
+      partial: "",
+    });
+  });
+
+  it("should hold back an unterminated reply", () => {
+    expect(splitTerminalResponses("a\x1b]11;rgb:00")).toEqual({
+      input: "a",
+      responses: [],
+      partial: "\x1b]11;rgb:00",
+    });
+    expect(splitTerminalResponses("\x1b[?62;").partial).toBe("\x1b[?62;");
+  });
+
+  it("should strip replies matching additional patterns", () => {
+    const cursorPosition = new RegExp(`${ESC}\\[(\\d+);(\\d+)R`);
+
+    expect(splitTerminalResponses("a\x1b[12;40Rb", [cursorPosition])).toEqual({
+      input: "ab",
+      responses: ["\x1b[12;40R"],
+      partial: "",
+    });
+  });
+});
+
+describe("filterTerminalResponses", () => {
+  function setup() {
+    const stdin = new EventEmitter();
+    const input: string[] = [];
+    const responses: string[] = [];
+    stdin.on("data", (data: Buffer | string) => input.push(String(data)));
+    return { stdin, input, responses };
+  }
+
+  it("should pass input through and route replies", () => {
+    const { stdin, input, responses } = setup();
+
+    const release = filterTerminalResponses(stdin, (response) =>
+      responses.push(response),
+    );
+    stdin.emit("data", Buffer.from("q\x1b[?1u"));
+    stdin.emit("data", Buffer.from("\x1b]11;rgb:ffff/ffff"));
+    stdin.emit("data", Buffer.from("/ffff\x07w"));
+    release();
+
+    expect(input).toEqual(["q", "w"]);
+    expect(responses).toEqual(["\x1b[?1u", "\x1b]11;rgb:ffff/ffff/ffff\x07"]);
+  });
+
+  it("should restore the stream when released", () => {
+    const { stdin, input } = setup();
+
+    filterTerminalResponses(stdin, () => undefined)();
+    stdin.emit("data", "\x1b[?62c");
+
+    expect(input).toEqual(["\x1b[?62c"]);
+    expect(Object.prototype.hasOwnProperty.call(stdin, "emit")).toBe(false);
+  });
+
+  it("should drop late replies during the grace period", async () => {
+    const { stdin, input, responses } = setup();
+
+    const release = filterTerminalResponses(stdin, (response) =>
+      responses.push(response),
+    );
+    release(30);
+    stdin.emit("data", "a\x1b[?62c");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    stdin.emit("data", "\x1b[?62c");
+
+    expect(responses).toEqual([]);
+    expect(input).toEqual(["a", "\x1b[?62c"]);
+  });
+
+  it("should support several filters on one stream", () => {
+    const { stdin, input } = setup();
+    const first: string[] = [];
+    const second: string[] = [];
+
+    const releaseFirst = filterTerminalResponses(stdin, (r) => first.push(r));
+    const releaseSecond = filterTerminalResponses(stdin, (r) => second.push(r));
+    stdin.emit("data", "\x1b[?62c");
+    releaseFirst();
+    stdin.emit("data", "\x1b[?1u");
+    releaseSecond();
+    stdin.emit("data", "x");
+
+    expect(first).toEqual(["\x1b[?62c"]);
+    expect(second).toEqual(["\x1b[?62c", "\x1b[?1u"]);
+    expect(input).toEqual(["x"]);
+  });
+
+  it("should hand held-back input to the application when released", () => {
+    const { stdin, input } = setup();
+
+    // Alt+] sends ESC ], which looks like the start of an OSC reply
+    const release = filterTerminalResponses(stdin, () => undefined);
+    stdin.emit("data", "\x1b]");
+    stdin.emit("data", "hello");
+    stdin.emit("data", "\r");
+    release();
+
+    expect(input).toEqual(["\x1b]hello\r"]);
+  });
+
+  it("should pass an unterminated introducer on after a short time", async () => {
+    const { stdin, input, responses } = setup();
+
+    const release = filterTerminalResponses(stdin, (response) =>
+      responses.push(response),
+    );
+    stdin.emit("data", "\x1bP");
+    stdin.emit("data", "x\x1b[?62c");
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    stdin.emit("data", "y");
+    release();
+
+    expect(input).toEqual(["\x1bP", "x", "y"]);
+    expect(responses).toEqual(["\x1b[?62c"]);
+  });
+
+  it("should read from a paused stream and pause it again", async () => {
+    const stdin = new PassThrough();
+    const responses: string[] = [];
+
+    const release = filterTerminalResponses(stdin, (response) =>
+      responses.push(response),
+    );
+    stdin.write("\x1b[?62c");
+    await new Promise((resolve) => setImmediate(resolve));
+    release();
+
+    expect(responses).toEqual(["\x1b[?62c"]);
+    expect(stdin.readableFlowing).toBe(null);
+    expect(stdin.listenerCount("data")).toBe(0);
+  });
+
+  it("should keep the stream flowing for listeners added while filtering", async () => {
+    const stdin = new PassThrough();
+    const input: string[] = [];
+
+    const release = filterTerminalResponses(stdin, () => undefined);
+    stdin.on("data", (data: Buffer) => input.push(String(data)));
+    release();
+    stdin.write("a");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(input).toEqual(["a"]);
+    expect(stdin.readableFlowing).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, spyOn } from "bun:test";
+import { restoreOnExit } from "../src/utils/restore-on-exit.js";
+
+describe("restoreOnExit", () => {
+  const events = [
+    "exit",
+    "uncaughtExceptionMonitor",
+    "SIGINT",
+    "SIGTERM",
+  ] as const;
+
+  function listenerCounts() {
+    return events.map((event) => process.listenerCount(event));
+  }
+
+  it("should remove its handlers when called", () => {
+    const before = listenerCounts();
+    let restored = 0;
+
+    const restore = restoreOnExit(() => restored++);
+    expect(listenerCounts()).toEqual(before.map((count) => count + 1));
+
+    restore();
+    restore();
+    expect(restored).toBe(1);
+    expect(listenerCounts()).toEqual(before);
+  });
+
+  it("should restore on uncaught exceptions", () => {
+    let restored = 0;
+    restoreOnExit(() => restored++);
+
+    process.emit(
+      "uncaughtExceptionMonitor",
+      new Error("boom"),
+      "uncaughtException",
+    );
+
+    expect(restored).toBe(1);
+  });
+
+  it("should restore on SIGTERM and keep other handlers in charge", () => {
+    let restored = 0;
+    const kill = spyOn(process, "kill").mockImplementation(() => true);
+    const handler = () => {
+      /* application handler */
+    };
+    process.on("SIGTERM", handler);
+
+    try {
+      restoreOnExit(() => restored++);
+      process.emit("SIGTERM", "SIGTERM");
+
+      expect(restored).toBe(1);
+      expect(kill).not.toHaveBeenCalled();
+    } finally {
+      process.off("SIGTERM", handler);
+      kill.mockRestore();
+    }
+  });
+
+  it("should re-raise signals without other handlers", () => {
+    const kill = spyOn(process, "kill").mockImplementation(() => true);
+    const others = process.listeners("SIGINT");
+    for (const listener of others) {
+      process.off("SIGINT", listener);
+    }
+
+    try {
+      restoreOnExit(() => undefined);
+      process.emit("SIGINT", "SIGINT");
+
+      expect(kill).toHaveBeenCalledWith(process.pid, "SIGINT");
+    } finally {
+      for (const listener of others) {
+        process.on("SIGINT", listener);
+      }
+      kill.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "bun:test";
+import {
+  BEGIN_SYNCHRONIZED_UPDATE,
+  END_SYNCHRONIZED_UPDATE,
+  synchronizeOutput,
+} from "../src/utils/synchronized-output.js";
+
+function createStdout() {
+  const writes: string[] = [];
+  return {
+    writes,
+    stdout: {
+      write: (data: string) => {
+        writes.push(data);
+        return true;
+      },
+    },
+  };
+}
+
+describe("synchronizeOutput", () => {
+  it("should bracket the writes of one frame", async () => {
+    const { writes, stdout } = createStdout();
+    const unwrap = synchronizeOutput(stdout);
+
+    stdout.write("static");
+    stdout.write("frame");
+    await Promise.resolve();
+
+    expect(writes).toEqual([
+      BEGIN_SYNCHRONIZED_UPDATE,
+      "static",
+      "frame",
+      END_SYNCHRONIZED_UPDATE,
+    ]);
+    unwrap();
+  });
+
+  it("should start a new update for the next frame", async () => {
+    const { writes, stdout } = createStdout();
+    const unwrap = synchronizeOutput(stdout);
+
+    stdout.write("one");
+    await Promise.resolve();
+    stdout.write("two");
+    await Promise.resolve();
+
+    expect(writes).toEqual([
+      BEGIN_SYNCHRONIZED_UPDATE,
+      "one",
+      END_SYNCHRONIZED_UPDATE,
+      BEGIN_SYNCHRONIZED_UPDATE,
+      "two",
+      END_SYNCHRONIZED_UPDATE,
+    ]);
+    unwrap();
+  });
+
+  it("should end a pending update and restore write when unwrapped", () => {
+    const { writes, stdout } = createStdout();
+    const originalWrite = stdout.write;
+    const unwrap = synchronizeOutput(stdout);
+
+    stdout.write("frame");
+    unwrap();
+    unwrap();
+
+    expect(writes).toEqual([
+      BEGIN_SYNCHRONIZED_UPDATE,
+      "frame",
+      END_SYNCHRONIZED_UPDATE,
+    ]);
+    expect(stdout.write).toBe(originalWrite);
+  });
+
+  it("should end the update after the safety timeout if ending it failed", async () => {
+    const writes: string[] = [];
+    let failures = 1;
+    const stdout = {
+      write: (data: string) => {
+        if (data === END_SYNCHRONIZED_UPDATE && failures-- > 0) {
+          throw new Error("EAGAIN");
+        }
+        writes.push(data);
+        return true;
+      },
+    };
+    const unwrap = synchronizeOutput(stdout, 10);
+
+    stdout.write("frame");
+    await Promise.resolve();
+    expect(writes).toEqual([BEGIN_SYNCHRONIZED_UPDATE, "frame"]);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(writes).toEqual([
+      BEGIN_SYNCHRONIZED_UPDATE,
+      "frame",
+      END_SYNCHRONIZED_UPDATE,
+    ]);
+    unwrap();
+  });
+
+  it("should do nothing without a stream", () => {
+    expect(() => synchronizeOutput(undefined)()).not.toThrow();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import {
+  getTermcapCachePath,
+  findTermcapCache,
+  getTerminalIdentity,
+  readTermcapCache,
+  writeTermcapCache,
+} from "../src/utils/termcap-cache.js";
+import type { TermcapInfo } from "../src/utils/detect-termcap.js";
+
+const caps: TermcapInfo = {
+  isReady: true,
+  backgroundColor: "#1a1a1a",
+  terminalName: "kitty(0.31.0)",
+  kittyProtocol: true,
+  modifyOtherKeys: false,
+  sources: { backgroundColor: "query" },
+  diagnostics: {
+    written: "\x1b[c",
+    responses: [],
+    timedOut: [],
+    sentinelReceived: true,
+    elapsed: 3,
+  },
+};
+
+const identity = { term: "xterm-kitty", termProgram: undefined, tty: "34817" };
+
+describe("getTermcapCachePath", () => {
+  it("should use XDG_CACHE_HOME", () => {
+    expect(getTermcapCachePath({ XDG_CACHE_HOME: "/tmp/cache" })).toBe(
+      join("/tmp/cache", "tinky-termcap", "termcap.json"),
+    );
+  });
+
+  it("should fall back to ~/.cache", () => {
+    expect(getTermcapCachePath({})).toEndWith(
+      join(".cache", "tinky-termcap", "termcap.json"),
+    );
+  });
+});
+
+describe("getTerminalIdentity", () => {
+  it("should read TERM and TERM_PROGRAM", () => {
+    expect(
+      getTerminalIdentity(undefined, {
+        TERM: "xterm-256color",
+        TERM_PROGRAM: "WezTerm",
+      }),
+    ).toEqual({ term: "xterm-256color", termProgram: "WezTerm" });
+  });
+
+  it("should not report a tty for non-TTY streams", () => {
+    const stdin = { isTTY: false, fd: 0 } as never;
+    expect(getTerminalIdentity(stdin, {}).tty).toBeUndefined();
+  });
+});
+
+describe("termcap cache", () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "termcap-"));
+    path = join(directory, "nested", "termcap.json");
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should return undefined without a cache file", () => {
+    expect(readTermcapCache(identity, path)).toBeUndefined();
+  });
+
+  it("should round-trip capabilities without diagnostics", () => {
+    writeTermcapCache(identity, caps, path);
+
+    expect(readTermcapCache(identity, path)).toEqual({
+      ...caps,
+      diagnostics: undefined,
+    });
+  });
+
+  it("should key entries by terminal identity", () => {
+    writeTermcapCache(identity, caps, path);
+
+    expect(
+      readTermcapCache({ ...identity, tty: "34818" }, path),
+    ).toBeUndefined();
+    expect(
+      readTermcapCache({ ...identity, term: "xterm-256color" }, path),
+    ).toBeUndefined();
+  });
+
+  it("should key entries by the XTVERSION reply", () => {
+    writeTermcapCache({ ...identity, xtversion: "kitty(0.31.0)" }, caps, path);
+
+    expect(readTermcapCache(identity, path)).toBeUndefined();
+    expect(
+      readTermcapCache({ ...identity, xtversion: "WezTerm 20240203" }, path),
+    ).toBeUndefined();
+    expect(
+      readTermcapCache({ ...identity, xtversion: "kitty(0.31.0)" }, path),
+    ).toBeDefined();
+  });
+
+  it("should find the latest entry whatever the XTVERSION reply", () => {
+    writeTermcapCache({ ...identity, xtversion: "kitty(0.30.0)" }, caps, path);
+    const now = Date.now();
+    const spy = spyOn(Date, "now").mockReturnValue(now + 1000);
+    try {
+      writeTermcapCache(
+        { ...identity, xtversion: "kitty(0.31.0)" },
+        { ...caps, terminalName: "kitty(0.31.0)" },
+        path,
+      );
+    } finally {
+      spy.mockRestore();
+    }
+    writeTermcapCache({ ...identity, tty: "34818" }, caps, path);
+
+    expect(
+      findTermcapCache({ ...identity, xtversion: "foot" }, path)?.terminalName,
+    ).toBe("kitty(0.31.0)");
+    expect(findTermcapCache({ ...identity, tty: "1" }, path)).toBeUndefined();
+    expect(
+      findTermcapCache({ ...identity, term: "xterm" }, path),
+    ).toBeUndefined();
+  });
+
+  it("should replace the entry of the same terminal", () => {
+    writeTermcapCache(identity, caps, path);
+    writeTermcapCache(identity, { ...caps, terminalName: "foot" }, path);
+
+    expect(readTermcapCache(identity, path)?.terminalName).toBe("foot");
+  });
+
+  it("should ignore corrupt and outdated files", () => {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, "{not json");
+    expect(readTermcapCache(identity, path)).toBeUndefined();
+
+    writeTermcapCache(identity, caps, path);
+    const file = JSON.parse(readFileSync(path, "utf8"));
+    writeFileSync(path, JSON.stringify({ ...file, version: 0 }));
+    expect(readTermcapCache(identity, path)).toBeUndefined();
+  });
+
+  it("should keep only the most recent terminals", () => {
+    for (let tty = 0; tty < 40; tty++) {
+      writeTermcapCache({ ...identity, tty: String(tty) }, caps, path);
+    }
+
+    const file = JSON.parse(readFileSync(path, "utf8"));
+    expect(Object.keys(file.entries)).toHaveLength(32);
+    expect(readTermcapCache({ ...identity, tty: "39" }, path)).toBeDefined();
+  });
+
+  it("should ignore write failures", () => {
+    writeFileSync(join(directory, "file"), "");
+    expect(() =>
+      writeTermcapCache(identity, caps, join(directory, "file", "x.json")),
+    ).not.toThrow();
+  });
+});
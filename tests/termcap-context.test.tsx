@@ -1,29 +1,93 @@
-import { describe, it, expect, mock } from "bun:test";
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  it,
+  expect,
+  mock,
+} from "bun:test";
 import { renderToString } from "react-dom/server";
+import { type ReactNode } from "react";
+import { type ReadStream, type WriteStream } from "tinky";
+import { render } from "tinky/lib/core/render.js";
+import { useApp } from "tinky/lib/hooks/use-app.js";
 import { TermcapProvider } from "../src/contexts/TermcapContext.js";
 import { useTermcap } from "../src/hooks/use-termcap.js";
+import { useColorScheme } from "../src/hooks/use-color-scheme.js";
+import { useTermcapRefresh } from "../src/hooks/use-termcap-refresh.js";
+import { useKittyKeyboard } from "../src/hooks/use-kitty-keyboard.js";
+import { useModifyOtherKeys } from "../src/hooks/use-modify-other-keys.js";
+import { useClipboard } from "../src/hooks/use-clipboard.js";
+import { useSynchronizedOutput } from "../src/hooks/use-synchronized-output.js";
+import { useEnhancedInput } from "../src/hooks/use-enhanced-input.js";
+import { useTermcapDiagnostics } from "../src/hooks/use-termcap-diagnostics.js";
 import type { TermcapInfo } from "../src/utils/detect-termcap.js";
+import {
+  getTerminalIdentity,
+  readTermcapCache,
+  writeTermcapCache,
+} from "../src/utils/termcap-cache.js";
 import { EventEmitter } from "node:events";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 
 // Mock tinky hooks
 const mockStdin = new EventEmitter();
-const mockStdout = process.stdout;
+const written: string[] = [];
+const mockStdout = Object.assign(new EventEmitter(), {
+  columns: 80,
+  rows: 24,
+  write: (data: string) => {
+    written.push(data);
+    return true;
+  },
+});
+
+const setRawMode = () => {
+  /* no-op for testing */
+};
 
 mock.module("tinky", () => {
   return {
     useStdin: () => ({
       stdin: mockStdin,
-      setRawMode: () => {
-        /* no-op for testing */
-      },
+      setRawMode,
       isRawMode: false,
+      internal_exitOnCtrlC: true,
     }),
     useStdout: () => ({
       stdout: mockStdout,
     }),
+    useApp,
   };
 });
 
+// tinky never removes its exit and signal handlers, which would end the
+// test run when other tests emit signals
+const exitEvents = ["exit", "SIGINT", "SIGTERM", "SIGHUP"] as const;
+const exitListeners = exitEvents.map((event) => process.listeners(event));
+afterAll(() => {
+  exitEvents.forEach((event, i) => {
+    for (const listener of process.listeners(event)) {
+      if (!exitListeners[i].includes(listener)) {
+        process.off(event, listener);
+      }
+    }
+  });
+});
+
+// Mount with tinky so that effects run, on the mocked streams
+function mount(node: ReactNode) {
+  written.length = 0;
+  return render(node, {
+    stdin: mockStdin as unknown as ReadStream,
+    stdout: mockStdout as unknown as WriteStream,
+    patchConsole: false,
+  });
+}
+
 describe("TermcapProvider", () => {
   it("should render children", () => {
     const html = renderToString(
@@ -79,6 +143,217 @@ describe("TermcapProvider", () => {
 
     expect(html).toContain("Test");
   });
+
+  it("should render cached capabilities before the terminal is known", () => {
+    const directory = mkdtempSync(join(tmpdir(), "termcap-"));
+    const path = join(directory, "termcap.json");
+    try {
+      writeTermcapCache(
+        getTerminalIdentity(mockStdin as never),
+        {
+          isReady: true,
+          backgroundColor: "#123456",
+          terminalName: "cached-terminal",
+          kittyProtocol: true,
+          modifyOtherKeys: false,
+        },
+        path,
+      );
+
+      function TestComponent() {
+        const info = useTermcap();
+        return <div>{`ready:${info.isReady},name:${info.terminalName}`}</div>;
+      }
+
+      const html = renderToString(
+        <TermcapProvider cache={path}>
+          <TestComponent />
+        </TermcapProvider>,
+      );
+
+      expect(html).toContain("ready:true,name:cached-terminal");
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("TermcapProvider detection", () => {
+  const tick = (ms = 10) => new Promise((resolve) => setTimeout(resolve, ms));
+  const isFiltered = () => Object.hasOwn(mockStdin, "emit");
+
+  let info: TermcapInfo | undefined;
+  function Capture() {
+    info = useTermcap();
+    return null;
+  }
+
+  it("should abort detection on unmount", async () => {
+    const instance = mount(
+      <TermcapProvider timeout={1000}>
+        <Capture />
+      </TermcapProvider>,
+    );
+    await tick();
+
+    expect(written.join("")).toContain("\x1b[c");
+    expect(isFiltered()).toBe(true);
+
+    instance.unmount();
+    await tick();
+
+    expect(isFiltered()).toBe(false);
+    expect(mockStdin.listenerCount("data")).toBe(0);
+  });
+
+  it("should restart detection when the timeout changes", async () => {
+    const instance = mount(
+      <TermcapProvider timeout={1000}>
+        <Capture />
+      </TermcapProvider>,
+    );
+    await tick();
+    instance.rerender(
+      <TermcapProvider timeout={2000}>
+        <Capture />
+      </TermcapProvider>,
+    );
+    await tick();
+
+    expect(written.join("").split("\x1b[c")).toHaveLength(3);
+
+    // Only the current detection is left waiting for the sentinel
+    mockStdin.emit("data", Buffer.from("\x1bP>|xterm(388)\x1b\\\x1b[?62c"));
+    await tick();
+
+    expect(info?.isReady).toBe(true);
+    expect(info?.terminalName).toBe("xterm(388)");
+    expect(isFiltered()).toBe(false);
+    expect(mockStdin.listenerCount("data")).toBe(0);
+
+    instance.unmount();
+  });
+
+  describe("with a cache", () => {
+    let directory: string;
+    let path: string;
+    const identity = getTerminalIdentity(mockStdin as never);
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), "termcap-"));
+      path = join(directory, "termcap.json");
+      writeTermcapCache(
+        { ...identity, xtversion: "xterm(388)" },
+        {
+          isReady: true,
+          backgroundColor: "#123456",
+          terminalName: "xterm(388)",
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+        },
+        path,
+      );
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should render cached capabilities and revalidate them", async () => {
+      const instance = mount(
+        <TermcapProvider cache={path} timeout={1000}>
+          <Capture />
+        </TermcapProvider>,
+      );
+      await tick();
+
+      expect(info?.isReady).toBe(true);
+      expect(info?.backgroundColor).toBe("#123456");
+      expect(written.join("")).toContain("\x1b]11;?");
+
+      mockStdin.emit(
+        "data",
+        Buffer.from(
+          "\x1b]11;rgb:0000/0000/0000\x1b\\\x1bP>|xterm(388)\x1b\\\x1b[?62c",
+        ),
+      );
+      await tick();
+
+      expect(info?.backgroundColor).toBe("#000000");
+      expect(
+        readTermcapCache({ ...identity, xtversion: "xterm(388)" }, path)
+          ?.backgroundColor,
+      ).toBe("#000000");
+
+      instance.unmount();
+    });
+
+    it("should replace the cache of another terminal", async () => {
+      const instance = mount(
+        <TermcapProvider cache={path} timeout={1000}>
+          <Capture />
+        </TermcapProvider>,
+      );
+      await tick();
+
+      expect(info?.terminalName).toBe("xterm(388)");
+
+      mockStdin.emit(
+        "data",
+        Buffer.from("\x1bP>|kitty(0.31.0)\x1b\\\x1b[?62c"),
+      );
+      await tick();
+
+      expect(info?.isReady).toBe(true);
+      expect(info?.terminalName).toBe("kitty(0.31.0)");
+      expect(info?.backgroundColor).toBeUndefined();
+      expect(
+        readTermcapCache({ ...identity, xtversion: "kitty(0.31.0)" }, path),
+      ).toBeDefined();
+      expect(
+        readTermcapCache({ ...identity, xtversion: "xterm(388)" }, path)
+          ?.backgroundColor,
+      ).toBe("#123456");
+
+      instance.unmount();
+    });
+
+    it("should render the cache of a terminal without XTVERSION", async () => {
+      writeTermcapCache(
+        identity,
+        {
+          isReady: true,
+          backgroundColor: "#abcdef",
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+        },
+        path,
+      );
+      const instance = mount(
+        <TermcapProvider cache={path} timeout={1000}>
+          <Capture />
+        </TermcapProvider>,
+      );
+      await tick();
+
+      // Rendered without waiting for an XTVERSION reply that never comes
+      expect(info?.isReady).toBe(true);
+      expect(info?.backgroundColor).toBe("#abcdef");
+
+      mockStdin.emit(
+        "data",
+        Buffer.from("\x1b]11;rgb:abab/cdcd/efef\x1b\\\x1b[?62c"),
+      );
+      await tick();
+
+      expect(info?.backgroundColor).toBe("#abcdef");
+      expect(info?.terminalName).toBeUndefined();
+      expect(readTermcapCache(identity, path)?.backgroundColor).toBe("#abcdef");
+
+      instance.unmount();
+    });
+  });
 });
 
 describe("useTermcap", () => {
@@ -125,6 +400,463 @@ describe("useTermcap", () => {
   });
 });
 
+describe("useColorScheme", () => {
+  function SchemeComponent() {
+    return <div>{`scheme:${useColorScheme()}`}</div>;
+  }
+
+  it("should derive the scheme from the background color", () => {
+    const html = renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: "#fdf6e3",
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+        }}
+      >
+        <SchemeComponent />
+      </TermcapProvider>,
+    );
+
+    expect(html).toContain("scheme:light");
+  });
+
+  it("should fall back to COLORFGBG without a background color", () => {
+    const previous = process.env.COLORFGBG;
+    process.env.COLORFGBG = "15;0";
+    try {
+      const html = renderToString(
+        <TermcapProvider
+          initialCapabilities={{
+            isReady: true,
+            backgroundColor: undefined,
+            terminalName: undefined,
+            kittyProtocol: false,
+            modifyOtherKeys: false,
+          }}
+        >
+          <SchemeComponent />
+        </TermcapProvider>,
+      );
+
+      expect(html).toContain("scheme:dark");
+    } finally {
+      if (previous === undefined) {
+        delete process.env.COLORFGBG;
+      } else {
+        process.env.COLORFGBG = previous;
+      }
+    }
+  });
+});
+
+describe("useKittyKeyboard", () => {
+  function KeyboardComponent() {
+    return <div>{`enhanced:${useKittyKeyboard({ disambiguate: true })}`}</div>;
+  }
+
+  it("should be active when the terminal supports the protocol", () => {
+    const html = renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: "kitty",
+          kittyProtocol: true,
+          modifyOtherKeys: false,
+        }}
+      >
+        <KeyboardComponent />
+      </TermcapProvider>,
+    );
+
+    expect(html).toContain("enhanced:true");
+  });
+
+  it("should stay inactive without protocol support", () => {
+    const html = renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+        }}
+      >
+        <KeyboardComponent />
+      </TermcapProvider>,
+    );
+
+    expect(html).toContain("enhanced:false");
+  });
+
+  it("should not push the flags while inactive", async () => {
+    function Keyboard() {
+      useKittyKeyboard({ disambiguate: true }, { isActive: false });
+      return null;
+    }
+
+    const instance = mount(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: "kitty",
+          kittyProtocol: true,
+          modifyOtherKeys: false,
+        }}
+      >
+        <Keyboard />
+      </TermcapProvider>,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    instance.unmount();
+
+    expect(written.join("")).not.toContain("\x1b[>");
+    expect(written.join("")).not.toContain("\x1b[<u");
+  });
+
+  it("should exit on Ctrl+C while the flags are pushed", async () => {
+    function Keyboard() {
+      useKittyKeyboard({ disambiguate: true });
+      return null;
+    }
+
+    const instance = mount(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: "kitty",
+          kittyProtocol: true,
+          modifyOtherKeys: false,
+        }}
+      >
+        <Keyboard />
+      </TermcapProvider>,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    mockStdin.emit("data", Buffer.from("\x1b[99;5u"));
+    await instance.waitUntilExit();
+
+    expect(written).toContain("\x1b[>1u");
+    expect(written).toContain("\x1b[<u");
+    expect(mockStdin.listenerCount("data")).toBe(0);
+  });
+});
+
+describe("useModifyOtherKeys", () => {
+  function KeysComponent() {
+    return <div>{`enhanced:${useModifyOtherKeys(2)}`}</div>;
+  }
+
+  it("should be active once the current level is known", () => {
+    const html = renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+          modifyOtherKeysLevel: 0,
+        }}
+      >
+        <KeysComponent />
+      </TermcapProvider>,
+    );
+
+    expect(html).toContain("enhanced:true");
+  });
+
+  it("should stay inactive when the level is unknown", () => {
+    const html = renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+        }}
+      >
+        <KeysComponent />
+      </TermcapProvider>,
+    );
+
+    expect(html).toContain("enhanced:false");
+  });
+
+  it("should exit on Ctrl+C at level 2", async () => {
+    function Keys() {
+      useModifyOtherKeys(2);
+      return null;
+    }
+
+    const instance = mount(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+          modifyOtherKeysLevel: 0,
+        }}
+      >
+        <Keys />
+      </TermcapProvider>,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    mockStdin.emit("data", Buffer.from("\x1b[27;5;99~"));
+    await instance.waitUntilExit();
+
+    expect(written).toContain("\x1b[>4;2m");
+    expect(written).toContain("\x1b[>4;0m");
+  });
+});
+
+describe("useSynchronizedOutput", () => {
+  function SyncComponent() {
+    return <div>{`synchronized:${useSynchronizedOutput()}`}</div>;
+  }
+
+  function renderWith(modes: TermcapInfo["modes"]) {
+    return renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+          modes,
+        }}
+      >
+        <SyncComponent />
+      </TermcapProvider>,
+    );
+  }
+
+  it("should be active when mode 2026 is confirmed", () => {
+    expect(renderWith({ 2026: "reset" })).toContain("synchronized:true");
+  });
+
+  it("should stay inactive on unsupported terminals", () => {
+    expect(renderWith(undefined)).toContain("synchronized:false");
+    expect(renderWith({ 2026: "notRecognized" })).toContain(
+      "synchronized:false",
+    );
+    expect(renderWith({ 2026: "permanentlyReset" })).toContain(
+      "synchronized:false",
+    );
+  });
+});
+
+describe("useClipboard", () => {
+  function ClipboardComponent() {
+    return <div>{`clipboard:${useClipboard().supported}`}</div>;
+  }
+
+  function renderWith(clipboard: boolean | undefined) {
+    return renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+          clipboard,
+        }}
+      >
+        <ClipboardComponent />
+      </TermcapProvider>,
+    );
+  }
+
+  it("should report detected OSC 52 support", () => {
+    expect(renderWith(true)).toContain("clipboard:true");
+    expect(renderWith(false)).toContain("clipboard:false");
+    expect(renderWith(undefined)).toContain("clipboard:false");
+  });
+});
+
+describe("useEnhancedInput", () => {
+  function InputComponent() {
+    const mode = useEnhancedInput(() => {
+      /* no-op for testing */
+    });
+    return <div>{`mode:${mode}`}</div>;
+  }
+
+  function renderWith(capabilities: Partial<TermcapInfo>) {
+    return renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+          ...capabilities,
+        }}
+      >
+        <InputComponent />
+      </TermcapProvider>,
+    );
+  }
+
+  it("should prefer the Kitty keyboard protocol", () => {
+    expect(
+      renderWith({ kittyProtocol: true, modifyOtherKeysLevel: 0 }),
+    ).toContain("mode:kitty");
+  });
+
+  it("should fall back to modifyOtherKeys", () => {
+    expect(renderWith({ modifyOtherKeysLevel: 0 })).toContain(
+      "mode:modifyOtherKeys",
+    );
+  });
+
+  it("should fall back to legacy sequences", () => {
+    expect(renderWith({})).toContain("mode:legacy");
+    expect(renderWith({ isReady: false, kittyProtocol: true })).toContain(
+      "mode:legacy",
+    );
+  });
+
+  it.each([
+    ["\x1b[99;5u", { kittyProtocol: true }, "\x1b[>7u", "\x1b[<u"],
+    ["\x1b[27;5;99~", { modifyOtherKeysLevel: 0 }, "\x1b[>4;2m", "\x1b[>4;0m"],
+  ])(
+    "should exit on Ctrl+C sent as %j",
+    async (
+      sequence,
+      capabilities: Partial<TermcapInfo>,
+      enable: string,
+      restore: string,
+    ) => {
+      const keys: string[] = [];
+      function Keys() {
+        useEnhancedInput((event) => keys.push(event.key));
+        return null;
+      }
+
+      const instance = mount(
+        <TermcapProvider
+          initialCapabilities={{
+            isReady: true,
+            backgroundColor: undefined,
+            terminalName: undefined,
+            kittyProtocol: false,
+            modifyOtherKeys: false,
+            ...capabilities,
+          }}
+        >
+          <Keys />
+        </TermcapProvider>,
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      mockStdin.emit("data", Buffer.from(`a${sequence}`));
+      await instance.waitUntilExit();
+
+      expect(keys).toEqual(["a"]);
+      expect(written.join("")).toContain(enable);
+      expect(written.join("")).toContain(restore);
+      expect(mockStdin.listenerCount("data")).toBe(0);
+    },
+  );
+});
+
+describe("useTermcapDiagnostics", () => {
+  function DiagnosticsComponent() {
+    const diagnostics = useTermcapDiagnostics();
+    return <div>{`written:${JSON.stringify(diagnostics?.written)}`}</div>;
+  }
+
+  it("should return the report from the capabilities", () => {
+    const html = renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: undefined,
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+          diagnostics: {
+            written: "q",
+            responses: [],
+            timedOut: [],
+            sentinelReceived: true,
+            elapsed: 5,
+          },
+        }}
+      >
+        <DiagnosticsComponent />
+      </TermcapProvider>,
+    );
+
+    expect(html).toContain("written:&quot;q&quot;");
+  });
+
+  it("should be undefined while detecting", () => {
+    const html = renderToString(
+      <TermcapProvider diagnostics>
+        <DiagnosticsComponent />
+      </TermcapProvider>,
+    );
+
+    expect(html).toContain("written:undefined");
+  });
+});
+
+describe("useTermcapRefresh", () => {
+  it("should throw when used outside provider", () => {
+    function TestComponent() {
+      try {
+        useTermcapRefresh();
+        return <div>should not render</div>;
+      } catch {
+        return <div>error caught</div>;
+      }
+    }
+
+    const html = renderToString(<TestComponent />);
+    expect(html).toContain("error caught");
+  });
+
+  it("should not query the terminal with initialCapabilities", async () => {
+    let refresh: (() => Promise<void>) | undefined;
+
+    function TestComponent() {
+      refresh = useTermcapRefresh();
+      return <div>ok</div>;
+    }
+
+    renderToString(
+      <TermcapProvider
+        initialCapabilities={{
+          isReady: true,
+          backgroundColor: "#000000",
+          terminalName: undefined,
+          kittyProtocol: false,
+          modifyOtherKeys: false,
+        }}
+      >
+        <TestComponent />
+      </TermcapProvider>,
+    );
+
+    expect(refresh).toBeDefined();
+    await refresh?.();
+    expect(mockStdin.listenerCount("data")).toBe(0);
+  });
+});
+
 describe("TermcapInfo type", () => {
   it("should export TermcapInfo type", () => {
     const info: TermcapInfo = {
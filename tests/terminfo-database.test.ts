@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { type ReadStream, type WriteStream } from "tinky";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { EventEmitter } from "node:events";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  findTerminfoFile,
+  getTerminfoSearchPath,
+  parseTerminfo,
+  readTerminfo,
+  toTerminfoCapabilities,
+} from "../src/utils/terminfo-database.js";
+import { detectTermcap, resetForTesting } from "../src/utils/detect-termcap.js";
+import { TERMCAP_ENV_VARIABLES } from "../src/utils/env-termcap.js";
+import { EXTENDED_FEATURES, Osc11Feature } from "../src/utils/term-features.js";
+
+interface Fixture {
+  names: string[];
+  wide?: boolean;
+  booleans?: number[];
+  numbers?: number[];
+  strings?: (string | number | undefined)[];
+  extended?: {
+    booleans?: [string, number][];
+    numbers?: [string, number][];
+    strings?: [string, string | undefined][];
+  };
+}
+
+function int16(...values: number[]) {
+  const buffer = Buffer.alloc(values.length * 2);
+  values.forEach((value, i) => buffer.writeInt16LE(value, i * 2));
+  return buffer;
+}
+
+function int32(...values: number[]) {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeInt32LE(value, i * 4));
+  return buffer;
+}
+
+// Numbers stand for the -1 (absent) and -2 (cancelled) markers
+function stringTable(values: (string | number | undefined)[]) {
+  const offsets: number[] = [];
+  let table = Buffer.alloc(0);
+  for (const value of values) {
+    if (typeof value === "string") {
+      offsets.push(table.length);
+      table = Buffer.concat([table, Buffer.from(`${value}\0`, "latin1")]);
+    } else {
+      offsets.push(value ?? -1);
+    }
+  }
+  return { offsets, table };
+}
+
+// Compile an entry the way ncurses' tic lays it out
+function compile(fixture: Fixture): Buffer {
+  const number = fixture.wide ? int32 : int16;
+  const names = Buffer.from(`${fixture.names.join("|")}\0`);
+  const booleans = Buffer.from(fixture.booleans ?? []);
+  const numbers = fixture.numbers ?? [];
+  const strings = stringTable(fixture.strings ?? []);
+
+  const parts = [
+    int16(
+      fixture.wide ? 0o1036 : 0o432,
+      names.length,
+      booleans.length,
+      numbers.length,
+      strings.offsets.length,
+      strings.table.length,
+    ),
+    names,
+    booleans,
+  ];
+  if ((names.length + booleans.length) % 2 === 1) {
+    parts.push(Buffer.alloc(1));
+  }
+  parts.push(number(...numbers), int16(...strings.offsets), strings.table);
+
+  if (fixture.extended) {
+    const extBooleans = fixture.extended.booleans ?? [];
+    const extNumbers = fixture.extended.numbers ?? [];
+    const extStrings = fixture.extended.strings ?? [];
+    const values = stringTable(extStrings.map(([, value]) => value));
+    const capNames = stringTable(
+      [...extBooleans, ...extNumbers, ...extStrings].map(([name]) => name),
+    );
+
+    if (Buffer.concat(parts).length % 2 === 1) {
+      parts.push(Buffer.alloc(1));
+    }
+    parts.push(
+      int16(
+        extBooleans.length,
+        extNumbers.length,
+        extStrings.length,
+        extStrings.length + capNames.offsets.length,
+        values.table.length + capNames.table.length,
+      ),
+      Buffer.from(extBooleans.map(([, value]) => value)),
+    );
+    if (extBooleans.length % 2 === 1) {
+      parts.push(Buffer.alloc(1));
+    }
+    parts.push(
+      number(...extNumbers.map(([, value]) => value)),
+      int16(...values.offsets),
+      int16(...capNames.offsets),
+      values.table,
+      capNames.table,
+    );
+  }
+  return Buffer.concat(parts);
+}
+
+// bw, am / cols ... colors (index 13) / cbt, bel, cr, csr ... smul (index 36)
+const xtermLike: Fixture = {
+  names: ["fixture-256color", "fixture with 256 colors"],
+  booleans: [0, 1],
+  numbers: [80, 8, 24, ...Array<number>(10).fill(-1), 256],
+  strings: [
+    undefined,
+    "\x07",
+    "\r",
+    -2,
+    ...Array<undefined>(32).fill(undefined),
+    "\x1b[4m",
+  ],
+};
+
+describe("parseTerminfo", () => {
+  it("should parse the legacy format", () => {
+    const entry = parseTerminfo(compile(xtermLike));
+
+    expect(entry).toEqual({
+      names: ["fixture-256color", "fixture with 256 colors"],
+      booleans: { am: true },
+      numbers: { cols: 80, it: 8, lines: 24, colors: 256 },
+      strings: { bel: "\x07", cr: "\r", smul: "\x1b[4m" },
+    });
+  });
+
+  it("should parse 32-bit numbers", () => {
+    const entry = parseTerminfo(
+      compile({
+        names: ["fixture-direct"],
+        wide: true,
+        numbers: [80, -1, 24, ...Array<number>(10).fill(-1), 0x1000000],
+      }),
+    );
+
+    expect(entry.numbers).toEqual({ cols: 80, lines: 24, colors: 0x1000000 });
+  });
+
+  it("should parse extended capabilities", () => {
+    const entry = parseTerminfo(
+      compile({
+        ...xtermLike,
+        extended: {
+          booleans: [
+            ["Tc", 1],
+            ["XT", 0],
+          ],
+          numbers: [["U8", 1]],
+          strings: [
+            ["Ms", "\x1b]52;%p1%s;%p2%s\x07"],
+            ["Se", undefined],
+            ["Smulx", "\x1b[4:%p1%dm"],
+          ],
+        },
+      }),
+    );
+
+    expect(entry.booleans).toEqual({ am: true, Tc: true });
+    expect(entry.numbers.U8).toBe(1);
+    expect(entry.strings.Ms).toBe("\x1b]52;%p1%s;%p2%s\x07");
+    expect(entry.strings.Smulx).toBe("\x1b[4:%p1%dm");
+    expect(entry.strings.Se).toBeUndefined();
+  });
+
+  it("should reject other files", () => {
+    expect(() => parseTerminfo(Buffer.from("#!/bin/sh\n"))).toThrow(
+      "Not a compiled terminfo entry",
+    );
+    expect(() => parseTerminfo(compile(xtermLike).subarray(0, 30))).toThrow(
+      "Truncated terminfo entry",
+    );
+  });
+});
+
+describe("toTerminfoCapabilities", () => {
+  it("should convert values to the XTGETTCAP representation", () => {
+    expect(toTerminfoCapabilities(parseTerminfo(compile(xtermLike)))).toEqual({
+      am: true,
+      cols: "80",
+      it: "8",
+      lines: "24",
+      colors: "256",
+      bel: "\x07",
+      cr: "\r",
+      smul: "\x1b[4m",
+    });
+  });
+});
+
+describe("getTerminfoSearchPath", () => {
+  it("should search TERMINFO, ~/.terminfo, TERMINFO_DIRS and system directories", () => {
+    expect(
+      getTerminfoSearchPath({
+        HOME: "/home/user",
+        TERMINFO: "/opt/terminfo",
+        TERMINFO_DIRS: "/nix/terminfo::/opt/terminfo",
+      }),
+    ).toEqual([
+      "/opt/terminfo",
+      "/home/user/.terminfo",
+      "/nix/terminfo",
+      "/etc/terminfo",
+      "/lib/terminfo",
+      "/usr/share/terminfo",
+    ]);
+  });
+});
+
+describe("findTerminfoFile", () => {
+  const env = { HOME: "/home/user" };
+
+  it("should find entries in letter and hex subdirectories", () => {
+    expect(
+      findTerminfoFile(
+        "xterm",
+        env,
+        (path) => path === "/usr/share/terminfo/78/xterm",
+      ),
+    ).toBe("/usr/share/terminfo/78/xterm");
+    expect(
+      findTerminfoFile(
+        "xterm",
+        env,
+        (path) => path === "/home/user/.terminfo/x/xterm",
+      ),
+    ).toBe("/home/user/.terminfo/x/xterm");
+  });
+
+  it("should not look outside the terminfo directories", () => {
+    const checked: string[] = [];
+    const fileExists = (path: string) => {
+      checked.push(path);
+      return true;
+    };
+
+    expect(findTerminfoFile("../../etc/passwd", env, fileExists)).toBe(
+      undefined,
+    );
+    expect(findTerminfoFile("", env, fileExists)).toBe(undefined);
+    expect(checked).toEqual([]);
+  });
+});
+
+describe("terminfo database as a detection source", () => {
+  let dir: string;
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "tinky-terminfo-"));
+    mkdirSync(join(dir, "f"));
+    writeFileSync(
+      join(dir, "f", "fixture-256color"),
+      compile({
+        ...xtermLike,
+        extended: { strings: [["Ms", "\x1b]52;%p1%s;%p2%s\x07"]] },
+      }),
+    );
+    process.env = {
+      ...Object.fromEntries(
+        Object.entries(originalEnv).filter(
+          ([name]) =>
+            !(TERMCAP_ENV_VARIABLES as readonly string[]).includes(name),
+        ),
+      ),
+      TERM: "fixture-256color",
+      TERMINFO: dir,
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should read the entry for TERM", () => {
+    expect(readTerminfo()?.names[0]).toBe("fixture-256color");
+    expect(readTerminfo("unknown-terminal")).toBeUndefined();
+  });
+
+  it("should fill in capabilities the terminal did not report", async () => {
+    const result = await detectTermcap(undefined, undefined, 100);
+
+    expect(result.terminfo?.colors).toBe("256");
+    expect(result.terminfo?.Ms).toBe("\x1b]52;%p1%s;%p2%s\x07");
+    expect(result.sources?.terminfo).toBe("terminfo");
+    expect(result.clipboard).toBe(true);
+    expect(result.sources?.clipboard).toBe("terminfo");
+  });
+
+  it("should read the entry once per environment", async () => {
+    await detectTermcap(undefined, undefined, 100);
+    rmSync(join(dir, "f", "fixture-256color"));
+
+    const cached = await detectTermcap(undefined, undefined, 100);
+    resetForTesting();
+    const reread = await detectTermcap(undefined, undefined, 100);
+
+    expect(cached.terminfo?.colors).toBe("256");
+    expect(reread.terminfo).toBeUndefined();
+  });
+
+  it("should not be read for features that do not need it", async () => {
+    const result = await detectTermcap({ features: [Osc11Feature] });
+
+    expect(result.terminfo).toBeUndefined();
+    expect(result.clipboard).toBe(false);
+  });
+
+  it("should rank below the terminal's own answers", async () => {
+    const stdin = new EventEmitter() as EventEmitter & ReadStream;
+    stdin.isTTY = true;
+    const stdout: WriteStream = {
+      write: () => {
+        const colors = Buffer.from("colors").toString("hex");
+        const value = Buffer.from("16777216").toString("hex");
+        setTimeout(
+          () =>
+            stdin.emit(
+              "data",
+              Buffer.from(`\x1bP1+r${colors}=${value}\x1b\\\x1b[?62c`),
+            ),
+          10,
+        );
+        return true;
+      },
+    };
+
+    const result = await detectTermcap(stdin, stdout, 1000, EXTENDED_FEATURES);
+
+    expect(result.terminfo?.colors).toBe("16777216");
+    expect(result.terminfo?.smul).toBe("\x1b[4m");
+    expect(result.sources?.terminfo).toBe("query");
+  });
+});